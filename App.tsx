@@ -1,155 +1,1094 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { SharedFile, TransferStatus, HistoryItem } from './types';
-import { LaptopIcon, SmartphoneIcon, UploadIcon, FileIcon, CheckIcon, CopyIcon, TrashIcon, HashIcon, HistoryIcon, TransferArrowIcon, OrbitLogo } from './components/Icons';
-import { getFileInsight } from './services/geminiService';
-import { WebRTCService } from './services/webrtcService';
+import { SharedFile, TransferStatus, HistoryItem, Participant, Recipient, DeviceInfo, TransferDirection, FileInsight } from './types';
+import { LaptopIcon, SmartphoneIcon, TabletIcon, UploadIcon, FileIcon, CheckIcon, CopyIcon, TrashIcon, HashIcon, HistoryIcon, TransferArrowIcon, OrbitLogo } from './components/Icons';
+import { InsightSettings, getFileInsight, isPrivateRoom, loadInsightSettings, renameRoom, saveInsightSettings, setRoomPrivate } from './services/insightProvider';
+import { hasGeminiKey } from './services/geminiService';
+import { WebRTCService, TransferCancelledError, TransferInterruptedError, MAX_TEXT_LENGTH } from './services/webrtcService';
+import { purgeStoredFile } from './services/receiveSink';
+import { IncomingOffer, ReceiverControl, TransferReceiver, isByteCount } from './services/transferReceiver';
+import { RateLimiter } from './services/rateLimiter';
+import { AutoAcceptRules, loadAutoAcceptRules, saveAutoAcceptRules, shouldAutoAccept } from './services/autoAccept';
+import { createThumbnail } from './services/thumbnail';
+import { BundleItem, OutgoingBundleEntry, bundleName, itemsFromFileList, itemsFromHandles } from './services/bundle';
+import { QueuedShare, claimQueuedShare, loadQueuedShares, onShareQueued, textFile } from './services/shareQueue';
+import { fileFingerprint } from './services/integrity';
+import { HOST_PEER_ID, RoomSession } from './services/roomSession';
+import { summarizeRecipients } from './services/recipients';
+import { CandidateType, TransferMeter, describePath } from './services/transferStats';
+import { IceSettings, loadIceSettings, probeIceServers, resolveIceConfig, saveIceSettings } from './services/iceConfig';
+import { ManualTokenCollector, isManualTokenFrame } from './services/sdpCodec';
+import { PAIRING_LINK_TTL_MS, PairingTarget, isExpired, newRoomCode, newRoomSecret, pairingUrl, parsePairingPayload, takePairingLink } from './services/pairingLink';
+import { DeviceIdentity, PeerDevice, formatFingerprint, hostsTrustedRoom, loadDeviceIdentity, localDeviceInfo, renameDevice, trustedRoom, unknownDevice } from './services/deviceIdentity';
+import { EMPTY_HISTORY_FILTER, HistoryFilter, HistorySettings, applyRetention, deleteHistoryItem, filterHistory, historyDevices, historyTags, historyToCsv, historyToJson, loadHistoryFile, loadHistorySettings, saveHistoryItem, saveHistorySettings } from './services/historyStore';
+import { TrustedDevice, forgetTrustedDevice, loadTrustedDevices, saveTrustedDevice } from './services/trustedDevices';
+import { MAX_CONCURRENCY, QueueSettings, QueuedItem, QueuePriority, TransferQueue, loadQueueSettings, saveQueueSettings } from './services/transferQueue';
 import QRCodeDisplay from './components/QRCodeDisplay';
 import QRScanner from './components/QRScanner';
+import TokenQRCode from './components/TokenQRCode';
+import LinkifiedText from './components/LinkifiedText';
+
+type ResumeRequest = { offset: number; chain: string; fingerprint: string; window?: number; encodings?: string[] };
+
+// How often the connection diagnostics are refreshed
+const STATS_INTERVAL_MS = 1000;
+
+// "Reconnecting (attempt 3)" while a dropped link is being restored, otherwise the raw state
+const connectionLabel = (peer: Participant) => peer.reconnectAttempt ? `Reconnecting (attempt ${peer.reconnectAttempt})` : peer.state;
+
+// Download limits a receiver can ask the sender for, in bytes per second
+const THROTTLE_OPTIONS = [0, 1024 * 1024, 5 * 1024 * 1024, 20 * 1024 * 1024];
+
+// Name for a room peer that hasn't introduced itself yet
+const fallbackPeerName = (peerId: string) => peerId === HOST_PEER_ID ? 'Host' : `Device ${peerId.slice(-4).toUpperCase()}`;
+
+const DeviceIcon = ({ device }: { device: DeviceInfo }) =>
+  device.formFactor === 'phone' ? <SmartphoneIcon /> : device.formFactor === 'tablet' ? <TabletIcon /> : <LaptopIcon />;
+
+// Hands a blob to the browser's download manager
+const saveBlob = (blob: Blob, name: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = name;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// Category, summary and tags of a finished item; tags become filters when onTag is given
+const InsightDetails = ({ insight, onTag }: { insight: FileInsight; onTag?: (tag: string) => void }) => (
+  <div className="mt-4 p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-2">
+    <div className="flex flex-wrap items-center gap-2">
+      <span className="text-[9px] font-black text-purple-600 uppercase tracking-widest">{insight.category}</span>
+      {insight.sensitive && <span className="text-[9px] font-black text-amber-700 bg-amber-50 border border-amber-100 px-2 py-0.5 rounded-lg uppercase tracking-widest">Sensitive</span>}
+    </div>
+    <p className="italic text-[11px] text-slate-500">"{insight.summary}"</p>
+    {insight.tags.length > 0 && (
+      <div className="flex flex-wrap gap-1.5">
+        {insight.tags.map(tag => onTag
+          ? <button key={tag} onClick={() => onTag(tag)} className="px-2 py-0.5 bg-white border border-slate-200 rounded-lg text-[9px] font-bold text-slate-500 hover:border-purple-300 hover:text-purple-600">#{tag}</button>
+          : <span key={tag} className="px-2 py-0.5 bg-white border border-slate-200 rounded-lg text-[9px] font-bold text-slate-500">#{tag}</span>)}
+      </div>
+    )}
+  </div>
+);
+
+// Starts sending an item over one peer's connection
+type OutgoingStart = (link: WebRTCService, onProgress: (p: number) => void, onAccepted: () => void) => Promise<void>;
 
 const App: React.FC = () => {
   const [roomId, setRoomId] = useState<string | null>(null);
   const [isHost, setIsHost] = useState(false);
+  // From the pairing link: a secret that has to be known on top of the code, and the host's relay
+  const [roomSecret, setRoomSecret] = useState<string | undefined>(undefined);
+  const [roomRelay, setRoomRelay] = useState<string | undefined>(undefined);
+  // Host only: when the shown code expires, and whether joining needs the link's secret
+  const [linkExpires, setLinkExpires] = useState(0);
+  const [requireLink, setRequireLink] = useState(() => localStorage.getItem('orbit_require_link') === '1');
   const [joinInput, setJoinInput] = useState('');
   const [files, setFiles] = useState<SharedFile[]>([]);
   const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [historyFilter, setHistoryFilter] = useState<HistoryFilter>(EMPTY_HISTORY_FILTER);
+  const [historySettings, setHistorySettings] = useState<HistorySettings>(loadHistorySettings);
+  const [showHistorySettings, setShowHistorySettings] = useState(false);
   const [activeTab, setActiveTab] = useState<'room' | 'history'>('room');
-  const [deviceType, setDeviceType] = useState<'Mac' | 'Android'>('Mac');
-  const [p2pConnected, setP2pConnected] = useState(false);
-  const [connState, setConnState] = useState('Standby');
+  const [peers, setPeers] = useState<Participant[]>([]);
+  // Peers that sends go to; empty means everyone connected
+  const [selectedPeers, setSelectedPeers] = useState<Set<string>>(new Set());
+  const [authFailed, setAuthFailed] = useState(false);
   const [showManualHandshake, setShowManualHandshake] = useState(false);
   const [manualToken, setManualToken] = useState('');
   const [inputToken, setInputToken] = useState('');
   const [isScanning, setIsScanning] = useState(false);
+  // Scanning the other device's manual pairing token; progress is "2/3" for multi-frame codes
+  const [isScanningToken, setIsScanningToken] = useState(false);
+  const [tokenScanProgress, setTokenScanProgress] = useState<string | null>(null);
+  const [autoAcceptRules, setAutoAcceptRules] = useState<AutoAcceptRules>(loadAutoAcceptRules);
+  const [queueSettings, setQueueSettings] = useState<QueueSettings>(loadQueueSettings);
+  // Outgoing items waiting for a sending slot, in the order they will start
+  const [queued, setQueued] = useState<QueuedItem[]>([]);
+  // Upload cap across all peers in bytes per second, 0 for none
+  const [bandwidthLimit, setBandwidthLimit] = useState(() => Number(localStorage.getItem('orbit_bandwidth_limit')) || 0);
+  const [insightSettings, setInsightSettings] = useState<InsightSettings>(loadInsightSettings);
+  const [expandedBundles, setExpandedBundles] = useState<Set<string>>(new Set());
+  const [isDragging, setIsDragging] = useState(false);
+  // Shared to Orbit from other apps, sent as soon as a peer is connected
+  const [queuedShares, setQueuedShares] = useState<QueuedShare[]>([]);
+  const [textDraft, setTextDraft] = useState('');
+  const [clipboardSync, setClipboardSync] = useState(() => localStorage.getItem('orbit_clipboard_sync') === '1');
+  const [iceSettings, setIceSettings] = useState<IceSettings>(loadIceSettings);
+  const [showNetworkSettings, setShowNetworkSettings] = useState(false);
+  // Candidate types the last "Test Servers" run gathered, or null while it runs
+  const [iceProbe, setIceProbe] = useState<CandidateType[] | null | undefined>(undefined);
+  const [iceError, setIceError] = useState<string | null>(null);
+  const [identity, setIdentity] = useState<DeviceIdentity | null>(null);
+  const [trustedDevices, setTrustedDevices] = useState<TrustedDevice[]>([]);
+  // Set while in the room derived for a trusted device; its code and secret never rotate
+  const [trustedRoomPeer, setTrustedRoomPeer] = useState<string | null>(null);
   
-  const webrtcRef = useRef<WebRTCService | null>(null);
-  const incomingFileRef = useRef<{ 
-    name: string; 
-    size: number; 
-    chunks: ArrayBuffer[]; 
-    receivedSize: number;
-    id: string;
-  } | null>(null);
+  const connectedCount = peers.filter(p => p.connected).length;
+  const p2pConnected = connectedCount > 0;
+  const connState = peers[0] ? connectionLabel(peers[0]) : 'Standby';
+  const reconnectingPeer = peers.find(p => p.reconnectAttempt);
+
+  const sessionRef = useRef<RoomSession | null>(null);
+  // The peer connection a manual token exchange is running on
+  const manualLinkRef = useRef<WebRTCService | null>(null);
+  const tokenCollectorRef = useRef(new ManualTokenCollector());
+  // Lives across rooms so partially received files can resume after re-pairing
+  const receiverRef = useRef<TransferReceiver | null>(null);
+  if (!receiverRef.current) {
+    receiverRef.current = new TransferReceiver((message, peerId) => sessionRef.current?.getPeer(peerId)?.sendControl(message));
+  }
+  const queueRef = useRef<TransferQueue | null>(null);
+  if (!queueRef.current) {
+    queueRef.current = new TransferQueue(queueSettings);
+  }
+  // Shared by every connection, so the cap holds however many peers are sending at once
+  const bandwidthRef = useRef<RateLimiter | null>(null);
+  if (!bandwidthRef.current) {
+    bandwidthRef.current = new RateLimiter(bandwidthLimit);
+  }
+  // Read by send paths that run after awaits or from window listeners
+  const peersRef = useRef(peers);
+  peersRef.current = peers;
+  const selectedPeersRef = useRef(selectedPeers);
+  selectedPeersRef.current = selectedPeers;
+  const filesRef = useRef(files);
+  filesRef.current = files;
+  // Files we are sending that the receiver hasn't verified yet, for answering RESUME_REQUESTs
+  const outgoingFilesRef = useRef(new Map<string, File>());
+  // Same for folder bundles, keyed by bundle id
+  const outgoingBundlesRef = useRef(new Map<string, OutgoingBundleEntry[]>());
+  // RESUME_REQUESTs for files whose handle was lost (e.g. after a reload) until the user re-selects them, by file then peer
+  const pendingResumesRef = useRef(new Map<string, Map<string, ResumeRequest>>());
+  // Read from receiver callbacks, which are only bound once
+  const autoAcceptRulesRef = useRef(autoAcceptRules);
+  autoAcceptRulesRef.current = autoAcceptRules;
+  // Peers to accept everything from, reset whenever the room changes
+  const trustedPeersRef = useRef(new Set<string>());
+  const clipboardSyncRef = useRef(clipboardSync);
+  clipboardSyncRef.current = clipboardSync;
+  const iceSettingsRef = useRef(iceSettings);
+  iceSettingsRef.current = iceSettings;
+  const historySettingsRef = useRef(historySettings);
+  historySettingsRef.current = historySettings;
+  const insightSettingsRef = useRef(insightSettings);
+  insightSettingsRef.current = insightSettings;
+  const roomIdRef = useRef(roomId);
+  roomIdRef.current = roomId;
+  // Outgoing items already in the log, so a recipient finishing a resume doesn't add them again
+  const loggedOutgoingRef = useRef(new Set<string>());
+  const identityRef = useRef(identity);
+  identityRef.current = identity;
+  const localDevice = localDeviceInfo(identity);
+  const localDeviceRef = useRef(localDevice);
+  localDeviceRef.current = localDevice;
+  const trustedDevicesRef = useRef(trustedDevices);
+  trustedDevicesRef.current = trustedDevices;
+  // Last clipboard text pushed or received, so focusing the window doesn't echo it back
+  const lastClipboardRef = useRef<string | null>(null);
+  // Throughput meters for cards with bytes in flight, dropped when the transfer restarts or resumes
+  const metersRef = useRef(new Map<string, TransferMeter>());
+
+  const meterFor = (id: string) => {
+    let meter = metersRef.current.get(id);
+    if (!meter) {
+      meter = new TransferMeter();
+      metersRef.current.set(id, meter);
+    }
+    return meter;
+  };
+
+  useEffect(() => {
+    loadDeviceIdentity().then(setIdentity).catch(e => console.warn('Device identity unavailable', e));
+    loadTrustedDevices().then(setTrustedDevices).catch(e => console.warn('Trusted devices unavailable', e));
+  }, []);
+
+  // Also runs on start, so entries past the age limit go even if nothing new is logged
+  useEffect(() => {
+    saveHistorySettings(historySettings);
+    applyRetention(historySettings).then(setHistory).catch(e => console.warn('History unavailable', e));
+  }, [historySettings]);
+
+  useEffect(() => {
+    saveAutoAcceptRules(autoAcceptRules);
+  }, [autoAcceptRules]);
+
+  useEffect(() => {
+    saveIceSettings(iceSettings);
+  }, [iceSettings]);
+
+  useEffect(() => {
+    saveQueueSettings(queueSettings);
+    queueRef.current!.configure(queueSettings);
+  }, [queueSettings]);
 
   useEffect(() => {
-    const savedHistory = localStorage.getItem('orbit_transfer_history');
-    if (savedHistory) {
-      try { setHistory(JSON.parse(savedHistory)); } catch (e) { console.error(e); }
+    queueRef.current!.setOnChange(setQueued);
+  }, []);
+
+  useEffect(() => {
+    localStorage.setItem('orbit_bandwidth_limit', String(bandwidthLimit));
+    bandwidthRef.current!.setRate(bandwidthLimit);
+  }, [bandwidthLimit]);
+
+  useEffect(() => {
+    saveInsightSettings(insightSettings);
+  }, [insightSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('orbit_clipboard_sync', clipboardSync ? '1' : '0');
+  }, [clipboardSync]);
+
+  useEffect(() => {
+    localStorage.setItem('orbit_require_link', requireLink ? '1' : '0');
+  }, [requireLink]);
+
+  // Opened from a pairing link, e.g. by scanning the host's code with the camera app
+  useEffect(() => {
+    const link = takePairingLink();
+    if (link) joinTarget(link);
+  }, []);
+
+  // Shown codes expire: an idle room moves to a fresh code, one with devices in it re-issues the link
+  useEffect(() => {
+    if (!roomId || !isHost || trustedRoomPeer) return;
+    const timer = setTimeout(() => {
+      if (peersRef.current.length === 0) openHostRoom(!!roomSecret);
+      else setLinkExpires(Date.now() + PAIRING_LINK_TTL_MS);
+    }, Math.max(0, linkExpires - Date.now()));
+    return () => clearTimeout(timer);
+  }, [roomId, isHost, linkExpires, roomSecret, trustedRoomPeer]);
+
+  // Pushes the local clipboard to the peer whenever the window gains focus
+  useEffect(() => {
+    if (!clipboardSync || !p2pConnected) return;
+    const onFocus = () => {
+      navigator.clipboard.readText().then(text => {
+        if (!text.trim() || text === lastClipboardRef.current) return;
+        lastClipboardRef.current = text;
+        sendText(text, true);
+      }).catch(e => console.warn('Clipboard not readable', e));
+    };
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [clipboardSync, p2pConnected]);
+
+  useEffect(() => {
+    const receiver = receiverRef.current!;
+    receiver.setOnOffer(offer => {
+      setFiles(prev => [{
+        id: offer.id, name: offer.name, size: offer.size, type: offer.type, url: '',
+        timestamp: Date.now(), status: TransferStatus.PENDING, progress: 0,
+        sender: peerDevice(offer.peerId), direction: 'incoming', isP2P: true, thumbnail: offer.thumbnail,
+        bundle: offer.bundle?.map(({ path, size }) => ({ path, size })), peerId: offer.peerId
+      }, ...prev]);
+      if (shouldAutoAccept(autoAcceptRulesRef.current, offer, trustedPeersRef.current.has(offer.peerId))) {
+        acceptOffer(offer.id);
+      }
+    });
+    receiver.setOnIncoming((info, peerId) => {
+      setFiles(prev => [{
+        id: info.id, name: info.name, size: info.size, type: info.type, url: '',
+        timestamp: Date.now(), status: TransferStatus.UPLOADING, progress: 0,
+        sender: peerId ? peerDevice(peerId) : unknownDevice('', 'Sender'), direction: 'incoming', isP2P: true, peerId
+      }, ...prev]);
+    });
+    receiver.setOnProgress((id, progress) => {
+      setFiles(prev => prev.map(f => f.id === id ? { ...f, progress, stats: meterFor(id).sample((progress / 100) * f.size, f.size) } : f));
+    });
+    receiver.setOnComplete((info, stored) => {
+      finishReceivedFile(info.id, info.name, info.type, info.size, stored);
+    });
+    receiver.setOnBundleComplete((info, zip) => {
+      finishReceivedFile(info.id, info.name, info.type, info.size, zip);
+    });
+    receiver.setOnFailed((id, message) => {
+      setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.FAILED, errorMessage: message } : f));
+    });
+    receiver.setOnInterrupted(id => {
+      setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.INTERRUPTED, errorMessage: 'Connection lost. Waiting for the sender to reconnect.' } : f));
+    });
+    receiver.setOnResumed(id => {
+      metersRef.current.delete(id);
+      setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.UPLOADING, errorMessage: undefined } : f));
+    });
+    receiver.setOnCancelled(id => {
+      metersRef.current.delete(id);
+      setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.CANCELLED, errorMessage: 'Cancelled by sender', stats: undefined } : f));
+    });
+  }, []);
+
+  useEffect(() => {
+    receiverRef.current!.restore();
+  }, []);
+
+  // Samples each open connection's selected candidate pair for the diagnostics panel
+  useEffect(() => {
+    if (!p2pConnected) return;
+    const timer = setInterval(() => {
+      peersRef.current.filter(p => p.connected).forEach(peer => {
+        sessionRef.current?.getPeer(peer.peerId)?.getConnectionStats(peer.link)
+          .then(link => {
+            if (link) setPeers(prev => prev.map(p => p.peerId === peer.peerId ? { ...p, link } : p));
+          })
+          .catch(e => console.warn('Connection stats unavailable', e));
+      });
+    }, STATS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [p2pConnected]);
+
+  useEffect(() => {
+    const refresh = () => loadQueuedShares().then(setQueuedShares).catch(e => console.warn('Share queue unavailable', e));
+    refresh();
+    if (new URLSearchParams(window.location.search).has('shared')) {
+      window.history.replaceState(null, '', window.location.pathname);
     }
-    const ua = navigator.userAgent;
-    setDeviceType(/Android/i.test(ua) ? 'Android' : 'Mac');
+    return onShareQueued(refresh);
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('orbit_transfer_history', JSON.stringify(history));
-  }, [history]);
+    if (!p2pConnected || queuedShares.length === 0) return;
+    const shares = queuedShares;
+    setQueuedShares([]);
+    (async () => {
+      const claimed: File[] = [];
+      for (const share of shares) {
+        if (!(await claimQueuedShare(share.key))) continue;
+        if (share.file) claimed.push(share.file);
+        if (share.text) sendText(share.text);
+      }
+      sendFiles(claimed);
+    })();
+  }, [p2pConnected, queuedShares]);
+
+  // Window-wide drop target and paste handler, so sending doesn't need the upload box
+  useEffect(() => {
+    if (!roomId) return;
+    const hasFiles = (e: DragEvent) => !!e.dataTransfer && Array.from(e.dataTransfer.types).includes('Files');
+    const onDragOver = (e: DragEvent) => {
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      setIsDragging(true);
+    };
+    const onDragLeave = (e: DragEvent) => {
+      if (!e.relatedTarget) setIsDragging(false);
+    };
+    const onDrop = (e: DragEvent) => {
+      setIsDragging(false);
+      if (!hasFiles(e)) return;
+      e.preventDefault();
+      handleDataTransfer(e.dataTransfer!);
+    };
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const data = e.clipboardData;
+      if (!data) return;
+      const pasted = Array.from<File>(data.files);
+      const text = data.getData('text/plain');
+      if (pasted.length === 0 && !text.trim()) return;
+      e.preventDefault();
+      if (pasted.length > 0) {
+        sendFiles(pasted);
+      } else {
+        sendText(text);
+      }
+    };
+
+    window.addEventListener('dragover', onDragOver);
+    window.addEventListener('dragleave', onDragLeave);
+    window.addEventListener('drop', onDrop);
+    window.addEventListener('paste', onPaste);
+    return () => {
+      window.removeEventListener('dragover', onDragOver);
+      window.removeEventListener('dragleave', onDragLeave);
+      window.removeEventListener('drop', onDrop);
+      window.removeEventListener('paste', onPaste);
+    };
+  }, [roomId, p2pConnected]);
 
   useEffect(() => {
-    if (roomId) {
-      const service = new WebRTCService(roomId, isHost);
-      webrtcRef.current = service;
+    if (!roomId) return;
+    let session: RoomSession | null = null;
+    let cancelled = false;
+    trustedPeersRef.current = new Set();
+    setSelectedPeers(new Set());
+    setAuthFailed(false);
+    setIceError(null);
+    const receiver = receiverRef.current!;
 
-      service.setOnStatusChange((connected, state) => {
-        setP2pConnected(connected);
-        setConnState(state || 'Ready');
+    const open = (config: RTCConfiguration) => {
+      const current = new RoomSession({ roomId, secret: roomSecret, signalingUrl: roomRelay }, isHost, config, { bandwidth: bandwidthRef.current! });
+      session = current;
+      sessionRef.current = current;
+
+      const updatePeer = (peerId: string, changes: Partial<Participant>) => {
+        setPeers(prev => prev.map(p => p.peerId === peerId ? { ...p, ...changes } : p));
+      };
+
+      current.setOnPeerAdded(peerId => {
+        setPeers(prev => [...prev.filter(p => p.peerId !== peerId), { peerId, connected: false, state: 'connecting' }]);
+      });
+
+      current.setOnPeerRemoved(peerId => {
+        setPeers(prev => prev.filter(p => p.peerId !== peerId));
+        receiver.interruptAll(peerId);
       });
 
-      service.setOnMessage((data) => {
+      current.setOnStatusChange((peerId, connected, state, attempt) => {
+        updatePeer(peerId, { connected, state: state || 'Ready', reconnectAttempt: attempt });
+        if (state === 'open') {
+          setAuthFailed(false);
+          receiver.requestResumes(peerId);
+        } else if (state === 'closed' || state === 'auth-failed' || state === 'failed' || state === 'renegotiating') {
+          if (state === 'auth-failed') setAuthFailed(true);
+          updatePeer(peerId, { security: undefined, link: undefined });
+          receiver.interruptAll(peerId);
+        }
+      });
+
+      current.setOnSecure((peerId, info) => updatePeer(peerId, { security: info }));
+
+      current.setOnDevice((peerId, device) => {
+        updatePeer(peerId, { device });
+        // Offers can overtake the HELLO, and restored transfers only know the peer id
+        const { publicKey, verified, ...sender } = device;
+        setFiles(prev => prev.map(f => f.direction === 'incoming' && f.peerId === peerId ? { ...f, sender } : f));
+        const trusted = trustedDevicesRef.current.find(d => d.id === device.id);
+        if (trusted && device.verified) rememberDevice({ ...trusted, name: device.name, lastSeen: Date.now() });
+      });
+
+      current.setOnReceiverControl((peerId, id, control) => {
+        updateRecipient(id, peerId, { receiverPaused: control.paused, throttle: control.rate || undefined });
+      });
+
+      current.setOnMessage((peerId, data) => {
         if (typeof data === 'string') {
-          const msg = JSON.parse(data);
-          if (msg.type === 'METADATA') {
-            const id = msg.id || Math.random().toString(36).substring(7);
-            incomingFileRef.current = { name: msg.name, size: msg.size, chunks: [], receivedSize: 0, id };
-            setFiles(prev => [{
-              id, name: msg.name, size: msg.size, type: msg.mimeType, url: '',
-              timestamp: Date.now(), status: TransferStatus.UPLOADING, progress: 0,
-              sender: deviceType === 'Mac' ? 'Android' : 'Mac', isP2P: true
-            }, ...prev]);
+          let msg;
+          try {
+            msg = JSON.parse(data);
+          } catch (e) {
+            console.warn('Ignored a control message that is not JSON', e);
+            return;
+          }
+          if (!msg || typeof msg !== 'object') return;
+          if (receiver.handleControl(msg, peerId)) return;
+          if (msg.type === 'RESUME_REQUEST') {
+            handleResumeRequest(msg, peerId);
+          } else if (msg.type === 'TEXT') {
+            receiveText(msg, peerId);
           } else if (msg.type === 'TRANSFER_CONTROL') {
             const status = msg.action === 'PAUSE' ? TransferStatus.PAUSED : TransferStatus.UPLOADING;
             setFiles(prev => prev.map(f => f.id === msg.id ? { ...f, status } : f));
           }
         } else if (data instanceof ArrayBuffer) {
-          const incoming = incomingFileRef.current;
-          if (incoming) {
-            incoming.chunks.push(data);
-            incoming.receivedSize += data.byteLength;
-            const progress = Math.round((incoming.receivedSize / incoming.size) * 100);
-            setFiles(prev => prev.map(f => f.id === incoming.id ? { ...f, progress } : f));
-            if (incoming.receivedSize >= incoming.size) {
-              const blob = new Blob(incoming.chunks);
-              const url = URL.createObjectURL(blob);
-              finishReceivedFile(incoming.id, incoming.name, blob.type, incoming.size, url);
-              incomingFileRef.current = null;
-            }
-          }
+          receiver.handleFrame(data, peerId);
         }
       });
 
-      return () => { service.destroy(); webrtcRef.current = null; };
-    }
-  }, [roomId, isHost, deviceType]);
+      current.start();
+    };
+
+    // Settings are read when the room opens; changes apply to the next one
+    const settings = iceSettingsRef.current;
+    resolveIceConfig(settings)
+      .catch(err => {
+        setIceError(`${err.message}. Connecting without TURN.`);
+        return resolveIceConfig({ ...settings, turnUrls: [], credentialsUrl: '', relayOnly: false });
+      })
+      .then(config => { if (!cancelled) open(config); });
+
+    return () => {
+      cancelled = true;
+      if (!session) return;
+      session.peerIds.forEach(peerId => receiver.interruptAll(peerId));
+      session.destroy();
+      sessionRef.current = null;
+      manualLinkRef.current = null;
+      setPeers([]);
+    };
+  }, [roomId, roomSecret, roomRelay, isHost]);
 
-  const finishReceivedFile = async (id: string, name: string, type: string, size: number, url: string) => {
-    const insight = await getFileInsight(name, type, size);
-    setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.COMPLETED, url, aiInsight: insight } : f));
-    const historyEntry: HistoryItem = { id, name, size, type, timestamp: Date.now(), sender: deviceType === 'Mac' ? 'Android' : 'Mac', aiInsight: insight };
-    setHistory(prev => [historyEntry, ...prev.slice(0, 49)]);
+  // Average throughput and network path of a finished transfer, for its history entry
+  const transferSummary = (id: string, peerId?: string) => {
+    const averageRate = metersRef.current.get(id)?.averageRate || undefined;
+    metersRef.current.delete(id);
+    const link = peersRef.current.find(p => p.peerId === peerId)?.link;
+    return { averageRate, path: link ? describePath(link) : undefined };
   };
 
-  const createRoom = () => { setIsHost(true); setRoomId(Math.random().toString(36).substring(2, 8).toUpperCase()); };
-  
-  const joinRoom = (code: string) => {
-    setIsHost(false);
-    setRoomId(code.toUpperCase());
+  // A room peer as it introduced itself, or a placeholder until it has
+  const peerDevice = (peerId: string): DeviceInfo => {
+    const device = peersRef.current.find(p => p.peerId === peerId)?.device;
+    if (!device) return unknownDevice(peerId, fallbackPeerName(peerId));
+    const { publicKey, verified, ...info } = device;
+    return info;
+  };
+
+  // Shown at once, then stored (with the received file, if kept) and trimmed to the retention settings
+  const recordHistory = (item: HistoryItem, file?: Blob) => {
+    setHistory(prev => [item, ...prev.filter(h => h.id !== item.id)]);
+    const settings = historySettingsRef.current;
+    saveHistoryItem(item, file, settings)
+      .then(() => applyRetention(settings))
+      .then(setHistory)
+      .catch(e => console.warn('Could not save history', e));
+  };
+
+  // Described by the chosen provider; a room marked private never reaches a remote one
+  const describeFile = (name: string, type: string, size: number, blob?: Blob) =>
+    getFileInsight(insightSettingsRef.current, roomIdRef.current, { name, type, size, blob });
+
+  // Opens the history filtered to one insight tag
+  const showTag = (tag: string) => {
+    setHistoryFilter({ ...EMPTY_HISTORY_FILTER, tag });
+    setActiveTab('history');
+  };
+
+  // Bundles saved straight into a folder have no file to hand over
+  const finishReceivedFile = async (id: string, name: string, type: string, size: number, file?: Blob) => {
+    const card = filesRef.current.find(f => f.id === id);
+    const summary = transferSummary(id, card?.peerId);
+    const sender = card?.sender || unknownDevice('', 'Sender');
+    const url = file ? URL.createObjectURL(file) : '';
+    const insight = await describeFile(name, type, size, file);
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, name, status: TransferStatus.COMPLETED, url, insight, stats: undefined } : f));
+    recordHistory({ id, name, size, type, timestamp: Date.now(), sender, direction: 'incoming', insight, ...summary }, file);
+  };
+
+  const openHostRoom = (withSecret: boolean) => {
+    setIsHost(true);
+    setRoomSecret(withSecret ? newRoomSecret() : undefined);
+    setRoomRelay(undefined);
+    setTrustedRoomPeer(null);
+    setLinkExpires(Date.now() + PAIRING_LINK_TTL_MS);
+    const code = newRoomCode();
+    const previous = roomIdRef.current;
+    setInsightSettings(s => renameRoom(s, previous, code));
+    setRoomId(code);
+  };
+
+  const createRoom = () => openHostRoom(requireLink);
+
+  // Switching to a link-only room (or back) needs a new code, since the secret changes every key
+  const toggleRequireLink = (enabled: boolean) => {
+    setRequireLink(enabled);
+    openHostRoom(enabled);
+  };
+
+  const joinTarget = (target: PairingTarget) => {
     setIsScanning(false);
+    if (isExpired(target)) {
+      alert('This pairing code has expired. Scan the one the host shows now.');
+      return;
+    }
+    setIsHost(false);
+    setRoomSecret(target.secret);
+    setRoomRelay(target.signalingUrl);
+    setTrustedRoomPeer(null);
+    setRoomId(target.roomId);
+  };
+
+  // Both devices open the room derived from their keys, so neither has to show or type a code
+  const reconnectTrusted = async (device: TrustedDevice) => {
+    const self = identityRef.current;
+    if (!self?.privateKey) return;
+    try {
+      const room = await trustedRoom(self, device.publicKey);
+      setIsHost(hostsTrustedRoom(self, device.id));
+      setRoomSecret(room.secret);
+      setRoomRelay(device.signalingUrl);
+      setTrustedRoomPeer(device.id);
+      setRoomId(room.roomId);
+    } catch (e) {
+      console.error(e);
+      alert(`Couldn't reconnect to ${device.name}. Pair with a code instead.`);
+    }
+  };
+
+  const rememberDevice = (device: TrustedDevice) => {
+    setTrustedDevices(prev => [device, ...prev.filter(d => d.id !== device.id)]);
+    saveTrustedDevice(device).catch(e => console.warn('Could not save trusted device', e));
+  };
+
+  // Only devices that proved their key can be trusted; the other side has to trust this one too
+  const trustDevice = (device: PeerDevice) => {
+    if (!device.verified || !device.publicKey) return;
+    const existing = trustedDevicesRef.current.find(d => d.id === device.id);
+    rememberDevice({
+      id: device.id, name: device.name, publicKey: device.publicKey,
+      signalingUrl: roomRelay, addedAt: existing?.addedAt ?? Date.now(), lastSeen: Date.now()
+    });
   };
 
+  const forgetDevice = (id: string) => {
+    setTrustedDevices(prev => prev.filter(d => d.id !== id));
+    forgetTrustedDevice(id).catch(e => console.warn('Could not forget trusted device', e));
+  };
+
+  const updateDeviceName = (name: string) => {
+    renameDevice(name).then(setIdentity).catch(e => console.warn('Could not rename device', e));
+  };
+
+  // A typed or scanned room code, or a pairing link
+  const joinRoom = (payload: string) => {
+    const target = parsePairingPayload(payload);
+    if (!target) {
+      alert("That isn't an Orbit room code or pairing link.");
+      return;
+    }
+    joinTarget(target);
+  };
+
+  const shareLink = roomId ? pairingUrl({
+    roomId,
+    secret: roomSecret,
+    signalingUrl: roomRelay || process.env.SIGNALING_URL,
+    expires: isHost ? linkExpires : undefined
+  }) : '';
+
   const handleManualPairing = async () => {
-    if (!webrtcRef.current) return;
-    const token = await webrtcRef.current.getManualToken();
-    setManualToken(token);
+    if (!sessionRef.current) return;
+    const link = sessionRef.current.manualPeer();
+    manualLinkRef.current = link;
+    setManualToken('');
     setShowManualHandshake(true);
+    // A guest answers the host's token, so it has nothing to show until it has scanned one
+    if (!isHost) return;
+    try {
+      setManualToken(await link.getManualToken());
+    } catch (e: any) { alert(e.message); }
   };
 
-  const processInputToken = async () => {
-    if (!webrtcRef.current || !inputToken) return;
+  const processToken = async (token: string) => {
+    const link = manualLinkRef.current;
+    if (!link || !token.trim()) return;
     try {
-      await webrtcRef.current.processManualToken(inputToken);
+      await link.processManualToken(token);
       if (!isHost) {
-        const answer = await webrtcRef.current.getManualToken();
+        const answer = await link.getManualToken();
         setManualToken(answer);
       }
       setInputToken('');
     } catch (e: any) { alert(e.message); }
   };
 
-  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
-    const fileList = e.target.files;
-    if (!fileList || !p2pConnected) { alert("Please pair devices first."); return; }
-    for (let i = 0; i < fileList.length; i++) {
-      const file = fileList[i];
+  const scanToken = () => {
+    tokenCollectorRef.current = new ManualTokenCollector();
+    setTokenScanProgress(null);
+    setIsScanningToken(true);
+  };
+
+  const acceptTokenFrame = (data: string) => {
+    if (!isManualTokenFrame(data)) return null;
+    const collector = tokenCollectorRef.current;
+    const token = collector.add(data);
+    if (!token && collector.total > 1) setTokenScanProgress(`${collector.received}/${collector.total}`);
+    return token;
+  };
+
+  const acceptOffer = (id: string, target?: FileSystemHandle) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.UPLOADING } : f));
+    receiverRef.current?.accept(id, target);
+  };
+
+  // Streams straight into a file (or, for bundles, a folder) the user picks instead of the browser's storage
+  const acceptOfferTo = async (file: SharedFile) => {
+    // Undefined where the browser has no picker; the button is hidden there, but check anyway
+    const picking = file.bundle
+      ? window.showDirectoryPicker?.({ mode: 'readwrite' })
+      : window.showSaveFilePicker?.({ suggestedName: file.name });
+    if (!picking) return;
+    let handle: FileSystemHandle;
+    try {
+      handle = await picking;
+    } catch (e) {
+      return;
+    }
+    acceptOffer(file.id, handle);
+  };
+
+  const testIceServers = async () => {
+    setIceProbe(null);
+    try {
+      setIceProbe(await probeIceServers(await resolveIceConfig(iceSettings)));
+    } catch (e: any) {
+      setIceProbe(undefined);
+      alert(e.message);
+    }
+  };
+
+  const trustPeer = (peerId: string) => {
+    trustedPeersRef.current.add(peerId);
+    files.filter(f => f.status === TransferStatus.PENDING && f.direction === 'incoming' && f.peerId === peerId).forEach(f => acceptOffer(f.id));
+  };
+
+  // Sends hold on their own while a peer's link is being restored
+  const waitingOnLink = (file: SharedFile) => file.status === TransferStatus.UPLOADING &&
+    [file.peerId, ...(file.recipients || []).map(r => r.peerId)].some(peerId => peers.some(p => p.peerId === peerId && p.reconnectAttempt));
+
+  const peerLabel = (peerId: string) => peers.find(p => p.peerId === peerId)?.device?.name || fallbackPeerName(peerId);
+
+  // Connected peers that sends currently go to
+  const sendTargets = () => peersRef.current
+    .filter(p => p.connected && (selectedPeersRef.current.size === 0 || selectedPeersRef.current.has(p.peerId)))
+    .map(p => p.peerId);
+
+  const toggleRecipient = (peerId: string) => {
+    const connected = peers.filter(p => p.connected).map(p => p.peerId);
+    setSelectedPeers(prev => {
+      const next = new Set(prev.size === 0 ? connected : prev);
+      if (next.has(peerId)) next.delete(peerId); else next.add(peerId);
+      if (next.size === 0) return prev;
+      return connected.every(id => next.has(id)) ? new Set() : next;
+    });
+  };
+
+  const newRecipients = (peerIds: string[]): Recipient[] => peerIds.map(peerId => ({ peerId, status: TransferStatus.PENDING, progress: 0 }));
+
+  const updateRecipient = (id: string, peerId: string, changes: Partial<Recipient>) => {
+    setFiles(prev => prev.map(f => {
+      if (f.id !== id) return f;
+      const current = f.recipients || [];
+      const recipients = current.some(r => r.peerId === peerId)
+        ? current.map(r => r.peerId === peerId ? { ...r, ...changes } : r)
+        : [...current, { peerId, status: TransferStatus.PENDING, progress: 0, ...changes }];
+      if (changes.progress === undefined) return { ...f, recipients, ...summarizeRecipients(recipients) };
+      // Every recipient gets its own copy of the bytes, so the meter counts them all
+      const moved = recipients.reduce((n, r) => n + (r.progress / 100) * f.size, 0);
+      const stats = meterFor(id).sample(moved, f.size * recipients.length);
+      return { ...f, recipients, ...summarizeRecipients(recipients), stats };
+    }));
+  };
+
+  // Drives one outgoing transfer (fresh or resumed) to one peer until it verifies it
+  const trackOutgoing = async (id: string, peerId: string, start: OutgoingStart): Promise<'done' | 'failed' | 'interrupted' | 'cancelled'> => {
+    try {
+      const link = sessionRef.current?.getPeer(peerId);
+      if (!link) throw new Error('Connection disconnected.');
+      await start(
+        link,
+        p => updateRecipient(id, peerId, { progress: p }),
+        () => updateRecipient(id, peerId, { status: TransferStatus.UPLOADING })
+      );
+      updateRecipient(id, peerId, { status: TransferStatus.COMPLETED, progress: 100, errorMessage: undefined });
+      return 'done';
+    } catch (err: any) {
+      if (err instanceof TransferCancelledError) {
+        updateRecipient(id, peerId, { status: TransferStatus.CANCELLED, errorMessage: err.message });
+        return 'cancelled';
+      }
+      const interrupted = err instanceof TransferInterruptedError;
+      updateRecipient(id, peerId, { status: interrupted ? TransferStatus.INTERRUPTED : TransferStatus.FAILED, errorMessage: err.message });
+      return interrupted ? 'interrupted' : 'failed';
+    }
+  };
+
+  // Sends one item to each of the given peers in parallel. release() drops what was kept
+  // for answering RESUME_REQUESTs; it's skipped while any recipient may still resume.
+  const deliver = async (id: string, item: { name: string; type: string; size: number }, peerIds: string[], start: OutgoingStart, release: () => void) => {
+    const results = await Promise.all(peerIds.map(peerId => trackOutgoing(id, peerId, start)));
+    const card = filesRef.current.find(f => f.id === id);
+    const othersInterrupted = card?.recipients?.some(r => !peerIds.includes(r.peerId) && r.status === TransferStatus.INTERRUPTED);
+    if (!results.includes('interrupted') && !othersInterrupted) release();
+    // A resumed recipient finishing doesn't log the item a second time
+    if (!results.includes('done') || loggedOutgoingRef.current.has(id)) return;
+    loggedOutgoingRef.current.add(id);
+    const summary = transferSummary(id, peerIds[results.indexOf('done')]);
+    const recipients = peerIds.filter((_, i) => results[i] === 'done').map(peerDevice);
+    const insight = await describeFile(item.name, item.type, item.size, item instanceof File ? item : undefined);
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, insight, stats: undefined } : f));
+    recordHistory({ id, name: item.name, size: item.size, type: item.type, timestamp: Date.now(), sender: localDeviceRef.current, direction: 'outgoing', recipients, insight, ...summary });
+  };
+
+  const runOutgoing = (id: string, file: File, peerIds: string[], start: OutgoingStart) => {
+    outgoingFilesRef.current.set(id, file);
+    return deliver(id, file, peerIds, start, () => outgoingFilesRef.current.delete(id));
+  };
+
+  const runOutgoingBundle = (id: string, name: string, entries: OutgoingBundleEntry[], peerIds: string[], start: OutgoingStart) => {
+    outgoingBundlesRef.current.set(id, entries);
+    const size = entries.reduce((n, entry) => n + entry.file.size, 0);
+    return deliver(id, { name, type: 'inode/directory', size }, peerIds, start, () => outgoingBundlesRef.current.delete(id));
+  };
+
+  const sendBundle = async (items: BundleItem[]) => {
+    const targets = sendTargets();
+    if (targets.length === 0) { alert("Please pair devices first."); return; }
+    if (items.length === 0) return;
+    const id = Math.random().toString(36).substring(7);
+    const name = bundleName(items);
+    const entries = items.map(item => ({ ...item, id: Math.random().toString(36).substring(7) }));
+    const size = entries.reduce((n, entry) => n + entry.file.size, 0);
+    setFiles(prev => [{
+      id, name, size, type: 'inode/directory', url: '', timestamp: Date.now(), status: TransferStatus.PENDING, progress: 0,
+      sender: localDeviceRef.current, direction: 'outgoing', isP2P: true, bundle: entries.map(entry => ({ path: entry.path, size: entry.file.size })), recipients: newRecipients(targets)
+    }, ...prev]);
+    queueRef.current!.enqueue(id, () => runOutgoingBundle(id, name, entries, targets, (link, onProgress, onAccepted) => link.sendBundle(id, name, entries, onProgress, { onAccepted })));
+  };
+
+  const handleFolderUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const items = e.target.files ? itemsFromFileList(e.target.files) : [];
+    e.target.value = '';
+    sendBundle(items);
+  };
+
+  // Dropped folders are sent together as a bundle, plain files one by one
+  const handleDataTransfer = (dataTransfer: DataTransfer) => {
+    const items = Array.from<DataTransferItem>(dataTransfer.items).filter(item => item.kind === 'file');
+    if (!items.some(item => item.webkitGetAsEntry()?.isDirectory)) {
+      sendFiles(Array.from(dataTransfer.files));
+      return;
+    }
+    if (!items.every(item => typeof item.getAsFileSystemHandle === 'function')) {
+      alert('This browser cannot read dropped folders. Use "Send Folder" instead.');
+      return;
+    }
+    // Handles have to be requested before the drop event returns
+    const handles = items.map(item => item.getAsFileSystemHandle!());
+    Promise.all(handles)
+      .then(resolved => itemsFromHandles(resolved.filter((h): h is FileSystemHandle => !!h)))
+      .then(sendBundle)
+      .catch(err => alert(`Could not read the dropped folder: ${err.message}`));
+  };
+
+  // Each file gets its card right away and starts when the queue has a free slot
+  const sendFiles = (fileList: File[]) => {
+    if (fileList.length === 0) return;
+    const targets = sendTargets();
+    if (targets.length === 0) { alert("Please pair devices first."); return; }
+    for (const file of fileList) {
       const id = Math.random().toString(36).substring(7);
-      setFiles(prev => [{ id, name: file.name, size: file.size, type: file.type, url: URL.createObjectURL(file), timestamp: Date.now(), status: TransferStatus.UPLOADING, progress: 0, sender: deviceType, isP2P: true }, ...prev]);
+      setFiles(prev => [{ id, name: file.name, size: file.size, type: file.type, url: URL.createObjectURL(file), timestamp: Date.now(), status: TransferStatus.PENDING, progress: 0, sender: localDeviceRef.current, direction: 'outgoing', isP2P: true, recipients: newRecipients(targets) }, ...prev]);
+      queueRef.current!.enqueue(id, async () => {
+        const thumbnail = await createThumbnail(file);
+        await runOutgoing(id, file, targets, (link, onProgress, onAccepted) => link.sendFile(id, file, onProgress, { thumbnail, onAccepted }));
+      });
+    }
+  };
+
+  const sendText = (text: string, fromClipboard = false) => {
+    const targets = sendTargets();
+    if (targets.length === 0) { alert("Please pair devices first."); return; }
+    if (text.length > MAX_TEXT_LENGTH) {
+      sendFiles([textFile(text)]);
+      return;
+    }
+    const id = Math.random().toString(36).substring(7);
+    // One closed link doesn't stop the rest; the item lists only the devices that got it
+    const delivered: string[] = [];
+    const failures: string[] = [];
+    targets.forEach(peerId => {
       try {
-        await webrtcRef.current?.sendFile(id, file, (p) => setFiles(prev => prev.map(f => f.id === id ? { ...f, progress: p } : f)));
-        const insight = await getFileInsight(file.name, file.type, file.size);
-        setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.COMPLETED, aiInsight: insight } : f));
-        setHistory(prev => [{ id, name: file.name, size: file.size, type: file.type, timestamp: Date.now(), sender: deviceType, aiInsight: insight }, ...prev.slice(0, 49)]);
+        const link = sessionRef.current?.getPeer(peerId);
+        if (!link) throw new Error('Connection disconnected.');
+        link.sendText(id, text, fromClipboard);
+        delivered.push(peerId);
       } catch (err: any) {
-        setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.FAILED, errorMessage: err.message } : f));
+        failures.push(`${peerDevice(peerId).name}: ${err.message}`);
+      }
+    });
+    if (delivered.length > 0) addTextItem(id, text, fromClipboard, 'outgoing', delivered);
+    if (failures.length > 0) alert(`Not sent to:\n${failures.join('\n')}`);
+  };
+
+  const receiveText = (msg: any, peerId: string) => {
+    if (typeof msg.id !== 'string' || typeof msg.text !== 'string' || msg.text.length > MAX_TEXT_LENGTH) return;
+    addTextItem(msg.id, msg.text, !!msg.clipboard, 'incoming', [peerId]);
+    if (msg.clipboard && clipboardSyncRef.current && document.hasFocus()) {
+      lastClipboardRef.current = msg.text;
+      navigator.clipboard.writeText(msg.text).catch(e => console.warn('Clipboard not writable', e));
+    }
+  };
+
+  // peerIds: the sender of an incoming snippet, or everyone an outgoing one went to
+  const addTextItem = (id: string, text: string, fromClipboard: boolean, direction: TransferDirection, peerIds: string[]) => {
+    const name = fromClipboard ? 'Clipboard' : 'Text Snippet';
+    const size = new Blob([text]).size;
+    const timestamp = Date.now();
+    const sender = direction === 'incoming' ? peerDevice(peerIds[0]) : localDeviceRef.current;
+    const recipients = direction === 'outgoing' ? peerIds.map(peerDevice) : undefined;
+    const peerId = direction === 'incoming' ? peerIds[0] : undefined;
+    setFiles(prev => [{ id, name, size, type: 'text/plain', url: '', timestamp, status: TransferStatus.COMPLETED, progress: 100, sender, direction, isP2P: true, text, peerId }, ...prev]);
+    recordHistory({ id, name, size, type: 'text/plain', timestamp, sender, direction, recipients, text });
+  };
+
+  const submitTextDraft = () => {
+    if (!textDraft.trim()) return;
+    sendText(textDraft);
+    setTextDraft('');
+  };
+
+  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const fileList = e.target.files ? Array.from<File>(e.target.files) : [];
+    e.target.value = '';
+    sendFiles(fileList);
+  };
+
+  const resumeOutgoing = (id: string, file: File, request: ResumeRequest, peerId: string) => {
+    pendingResumesRef.current.get(id)?.delete(peerId);
+    metersRef.current.delete(id);
+    updateRecipient(id, peerId, { status: TransferStatus.UPLOADING, errorMessage: undefined });
+    runOutgoing(id, file, [peerId], (link, onProgress) => link.resumeFile(id, file, request, onProgress));
+  };
+
+  // A receiver still holds part of a file we were sending it
+  const handleResumeRequest = (msg: any, peerId: string) => {
+    if (typeof msg.id !== 'string' || !isByteCount(msg.offset) || typeof msg.chain !== 'string' || typeof msg.fingerprint !== 'string') {
+      console.warn('Malformed RESUME_REQUEST ignored');
+      return;
+    }
+    const request = { offset: msg.offset, chain: msg.chain, fingerprint: msg.fingerprint, window: msg.window, encodings: msg.encodings };
+    for (const [bundleId, entries] of outgoingBundlesRef.current) {
+      const index = entries.findIndex(entry => entry.id === msg.id);
+      if (index < 0) continue;
+      metersRef.current.delete(bundleId);
+      updateRecipient(bundleId, peerId, { status: TransferStatus.UPLOADING, errorMessage: undefined });
+      const name = bundleName(entries);
+      runOutgoingBundle(bundleId, name, entries, [peerId], (link, onProgress) => link.resumeBundle(bundleId, entries, index, request, onProgress));
+      return;
+    }
+    const file = outgoingFilesRef.current.get(msg.id);
+    if (file) {
+      resumeOutgoing(msg.id, file, request, peerId);
+      return;
+    }
+
+    // The File handle is gone, so the user has to pick the same file again
+    const pending = pendingResumesRef.current.get(msg.id) || new Map<string, ResumeRequest>();
+    pending.set(peerId, request);
+    pendingResumesRef.current.set(msg.id, pending);
+    // Only shown until the file is picked again, which has to match the fingerprint anyway
+    const size = isByteCount(msg.size) && msg.size >= msg.offset ? msg.size : 0;
+    const name = typeof msg.name === 'string' ? msg.name : 'file';
+    const progress = size ? Math.round((msg.offset / size) * 100) : 0;
+    const errorMessage = `Select "${name}" again to resume.`;
+    if (!filesRef.current.some(f => f.id === msg.id)) {
+      setFiles(prev => [{ id: msg.id, name, size, type: typeof msg.mimeType === 'string' ? msg.mimeType : '', url: '', timestamp: Date.now(), status: TransferStatus.INTERRUPTED, progress, sender: localDeviceRef.current, direction: 'outgoing', isP2P: true, errorMessage }, ...prev]);
+    }
+    updateRecipient(msg.id, peerId, { status: TransferStatus.INTERRUPTED, progress, errorMessage });
+  };
+
+  const handleResumeReselect = (id: string, e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    const pending = pendingResumesRef.current.get(id);
+    e.target.value = '';
+    if (!file || !pending || pending.size === 0) return;
+    if ([...pending.values()].some(request => fileFingerprint(file) !== request.fingerprint)) {
+      alert("That isn't the same file. Pick the original to resume.");
+      return;
+    }
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, url: URL.createObjectURL(file) } : f));
+    pendingResumesRef.current.delete(id);
+    pending.forEach((request, peerId) => resumeOutgoing(id, file, request, peerId));
+  };
+
+  // Pauses or resumes the transfer to every recipient at once
+  const togglePause = (file: SharedFile) => {
+    const pausing = file.status === TransferStatus.UPLOADING;
+    if (!pausing && file.status !== TransferStatus.PAUSED) return;
+    file.recipients?.forEach(r => {
+      const link = sessionRef.current?.getPeer(r.peerId);
+      if (pausing && r.status === TransferStatus.UPLOADING) {
+        link?.pauseTransfer(file.id);
+        updateRecipient(file.id, r.peerId, { status: TransferStatus.PAUSED });
+      } else if (!pausing && r.status === TransferStatus.PAUSED) {
+        link?.resumeTransfer(file.id);
+        updateRecipient(file.id, r.peerId, { status: TransferStatus.UPLOADING });
       }
+    });
+  };
+
+  // Stops an outgoing item for every recipient. A queued item never starts; one being offered
+  // or streamed stops reading and its receivers drop what they got.
+  const cancelOutgoing = (file: SharedFile) => {
+    if (queueRef.current!.cancel(file.id)) {
+      file.recipients?.forEach(r => updateRecipient(file.id, r.peerId, { status: TransferStatus.CANCELLED, errorMessage: 'Cancelled' }));
+      return;
     }
+    file.recipients?.forEach(r => {
+      if (r.status === TransferStatus.PENDING || r.status === TransferStatus.UPLOADING || r.status === TransferStatus.PAUSED) {
+        sessionRef.current?.getPeer(r.peerId)?.cancelTransfer(file.id);
+      }
+    });
+  };
+
+  const queuePosition = (id: string) => queued.findIndex(item => item.id === id);
+
+  // Holds or slows down an incoming item; the sender enforces it
+  const controlIncoming = (file: SharedFile, changes: Partial<ReceiverControl>) => {
+    const control: ReceiverControl = { paused: !!file.receiverPaused, rate: file.throttle || 0, ...changes };
+    receiverRef.current?.control(file.id, control);
+    setFiles(prev => prev.map(f => f.id === file.id ? { ...f, receiverPaused: control.paused, throttle: control.rate || undefined } : f));
   };
 
-  const togglePause = (id: string, currentStatus: TransferStatus) => {
-    if (currentStatus === TransferStatus.UPLOADING) {
-      webrtcRef.current?.pauseTransfer(id);
-      setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.PAUSED } : f));
-    } else if (currentStatus === TransferStatus.PAUSED) {
-      webrtcRef.current?.resumeTransfer(id);
-      setFiles(prev => prev.map(f => f.id === id ? { ...f, status: TransferStatus.UPLOADING } : f));
+  // Who is holding a transfer up, if anyone: this side, the other side, or (outgoing) every active recipient
+  const pauseLabel = (file: SharedFile) => {
+    if (file.direction === 'incoming') {
+      return file.receiverPaused ? 'Paused' : file.status === TransferStatus.PAUSED ? 'Paused by sender' : null;
     }
+    if (file.status === TransferStatus.PAUSED) return 'Paused';
+    const streaming = (file.recipients || []).filter(r => r.status === TransferStatus.UPLOADING);
+    return streaming.length > 0 && streaming.every(r => r.receiverPaused) ? 'Paused by receiver' : null;
+  };
+
+  // Lowest limit a recipient (or this device, for incoming items) asked for
+  const throttleOf = (file: SharedFile) => {
+    const limits = file.direction === 'incoming' ? [file.throttle] : (file.recipients || []).map(r => r.throttle);
+    const set = limits.filter((limit): limit is number => !!limit);
+    return set.length ? Math.min(...set) : 0;
+  };
+
+  const removeFile = (file: SharedFile) => {
+    setFiles(prev => prev.filter(f => f.id !== file.id));
+    metersRef.current.delete(file.id);
+    if (file.text !== undefined) return;
+    if (file.direction === 'incoming') {
+      if (file.url) URL.revokeObjectURL(file.url);
+      receiverRef.current?.discard(file.id);
+      purgeStoredFile(file.id);
+      return;
+    }
+    cancelOutgoing(file);
+    const bundleEntries = outgoingBundlesRef.current.get(file.id);
+    (file.recipients || []).forEach(r => {
+      if (r.status !== TransferStatus.INTERRUPTED) return;
+      const link = sessionRef.current?.getPeer(r.peerId);
+      (bundleEntries ? bundleEntries.map(entry => entry.id) : [file.id]).forEach(id => link?.sendControl({ type: 'RESUME_DECLINED', id }));
+    });
+    if (file.status === TransferStatus.INTERRUPTED) {
+      outgoingBundlesRef.current.delete(file.id);
+      outgoingFilesRef.current.delete(file.id);
+      pendingResumesRef.current.delete(file.id);
+    }
+  };
+
+  const shownHistory = filterHistory(history, historyFilter);
+
+  const downloadKeptFile = async (item: HistoryItem) => {
+    const file = await loadHistoryFile(item.id).catch(() => undefined);
+    if (!file) {
+      alert('The kept copy of this file is gone.');
+      setHistory(prev => prev.map(h => h.id === item.id ? { ...h, fileKept: undefined } : h));
+      return;
+    }
+    saveBlob(file, item.name);
+  };
+
+  const removeHistoryItem = (id: string) => {
+    setHistory(prev => prev.filter(h => h.id !== id));
+    deleteHistoryItem(id).catch(e => console.warn('Could not delete history entry', e));
+  };
+
+  // Exports what the filters currently show
+  const exportHistory = (format: 'json' | 'csv') => {
+    const stamp = new Date().toISOString().slice(0, 10);
+    const blob = format === 'json'
+      ? new Blob([historyToJson(shownHistory)], { type: 'application/json' })
+      : new Blob([historyToCsv(shownHistory)], { type: 'text/csv' });
+    saveBlob(blob, `orbit-history-${stamp}.${format}`);
   };
 
   const formatSize = (bytes: number) => {
@@ -160,8 +1099,16 @@ const App: React.FC = () => {
     return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
   };
 
+  const formatRate = (bytesPerSecond: number) => `${formatSize(Math.round(bytesPerSecond))}/s`;
+
+  const formatDuration = (seconds: number) => {
+    if (seconds < 60) return `${Math.ceil(seconds)}s`;
+    if (seconds < 3600) return `${Math.floor(seconds / 60)}m ${Math.ceil(seconds % 60)}s`;
+    return `${Math.floor(seconds / 3600)}h ${Math.floor((seconds % 3600) / 60)}m`;
+  };
+
   if (isScanning) {
-    return <QRScanner onScan={joinRoom} onClose={() => setIsScanning(false)} />;
+    return <QRScanner accept={data => parsePairingPayload(data) ? data : null} onScan={joinRoom} onClose={() => setIsScanning(false)} />;
   }
 
   if (!roomId) {
@@ -173,6 +1120,9 @@ const App: React.FC = () => {
           <div className="text-center">
             <div className="flex justify-center mb-4 transform drop-shadow-[0_0_30px_rgba(155,81,224,0.35)]"><OrbitLogo size="md" lightText={true} /></div>
             <p className="mt-2 text-slate-400 font-medium leading-relaxed max-w-[280px] mx-auto">Cross-platform P2P file sharing. No cloud, just direct tunnels.</p>
+            {queuedShares.length > 0 && (
+              <p className="mt-4 text-xs font-bold text-purple-300">{queuedShares.length} shared {queuedShares.length === 1 ? 'item' : 'items'} waiting. Pair a device to send.</p>
+            )}
           </div>
           <div className="space-y-4">
             <button onClick={createRoom} className="w-full py-5 text-lg font-bold rounded-2xl text-white bg-gradient-to-r from-purple-600 via-pink-600 to-orange-500 hover:brightness-110 shadow-2xl transition-all transform hover:-translate-y-1">Launch Direct Hub</button>
@@ -184,6 +1134,17 @@ const App: React.FC = () => {
                 <button onClick={() => setIsScanning(true)} className="py-4 bg-white/10 text-white font-bold text-sm rounded-2xl hover:bg-white/20 transition-all uppercase tracking-widest border border-white/10">Scan Code</button>
               </div>
             </div>
+            {identity?.privateKey && trustedDevices.length > 0 && (
+              <div className="space-y-3 pt-2">
+                <p className="text-center text-slate-500 font-bold uppercase tracking-widest text-[11px]">Trusted Devices</p>
+                {trustedDevices.map(device => (
+                  <button key={device.id} onClick={() => reconnectTrusted(device)} className="w-full flex items-center justify-between gap-3 px-5 py-4 bg-white/5 border border-white/10 rounded-2xl hover:bg-white/10 transition-all">
+                    <span className="text-sm font-bold text-white truncate">{device.name}</span>
+                    <span className="text-[10px] font-black text-purple-300 uppercase tracking-widest">Reconnect</span>
+                  </button>
+                ))}
+              </div>
+            )}
           </div>
         </div>
       </div>
@@ -220,22 +1181,271 @@ const App: React.FC = () => {
                 <input type="file" multiple onChange={handleFileUpload} disabled={!p2pConnected} className="absolute inset-0 w-full h-full opacity-0 cursor-pointer z-10" />
                 <div className={`border-2 border-dashed ${p2pConnected ? 'border-purple-100 bg-purple-50/20' : 'border-slate-100'} rounded-[2rem] p-12 flex flex-col items-center justify-center text-center transition-all`}>
                   <div className="w-14 h-14 bg-white rounded-full flex items-center justify-center mb-5 shadow-sm"><UploadIcon className="text-slate-400" /></div>
-                  <p className="text-sm font-bold text-slate-800">{p2pConnected ? 'Drop Stream Source' : 'Tunnel Closed'}</p>
+                  <p className="text-sm font-bold text-slate-800">{p2pConnected ? 'Drop Stream Source' : reconnectingPeer ? connectionLabel(reconnectingPeer) : 'Tunnel Closed'}</p>
                 </div>
               </div>
-              {!p2pConnected && (
+              {queuedShares.length > 0 && (
+                <p className="mt-4 text-[10px] font-bold text-purple-600 text-center">{queuedShares.length} shared {queuedShares.length === 1 ? 'item' : 'items'} will be sent once a device connects</p>
+              )}
+              {p2pConnected && (
+                <label className="block w-full mt-4 py-3 bg-slate-100 text-slate-700 text-center rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all cursor-pointer">
+                  Send Folder
+                  <input type="file" webkitdirectory="" onChange={handleFolderUpload} className="hidden" />
+                </label>
+              )}
+              {p2pConnected && (
+                <div className="mt-4 space-y-2">
+                  <textarea
+                    value={textDraft}
+                    onChange={(e) => setTextDraft(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) submitTextDraft(); }}
+                    placeholder="Link, code or note..."
+                    className="w-full p-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs h-20 resize-none outline-none focus:border-purple-300"
+                  />
+                  <button onClick={submitTextDraft} disabled={!textDraft.trim()} className="w-full py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-black transition-all disabled:opacity-40">Send Text</button>
+                  <label className="flex items-center justify-between gap-3 pt-1 cursor-pointer">
+                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Sync clipboard on focus</span>
+                    <input type="checkbox" checked={clipboardSync} onChange={(e) => setClipboardSync(e.target.checked)} className="accent-purple-600" />
+                  </label>
+                </div>
+              )}
+              {(!p2pConnected || isHost) && (
                 <button onClick={handleManualPairing} className="w-full mt-4 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-black transition-all">Manual Pairing Fallback</button>
               )}
             </div>
 
             <div className="bg-white p-7 rounded-[2.5rem] border border-slate-200 shadow-sm flex flex-col items-center text-center">
-              <h3 className="text-[11px] font-black text-slate-400 mb-5 uppercase tracking-[0.25em]">Pairing Link</h3>
-              <div className="p-1 bg-slate-50 rounded-[1.8rem] border border-slate-100"><QRCodeDisplay text={roomId} size={150} /></div>
+              {trustedRoomPeer ? (
+                <>
+                  <h3 className="text-[11px] font-black text-slate-400 mb-3 uppercase tracking-[0.25em]">Trusted Device</h3>
+                  <p className="text-sm font-bold text-slate-800">{trustedDevices.find(d => d.id === trustedRoomPeer)?.name || 'Trusted device'}</p>
+                  {!p2pConnected && <p className="mt-2 text-[9px] text-slate-400 font-medium">Open Orbit on that device and tap Reconnect.</p>}
+                </>
+              ) : (
+                <>
+                  <h3 className="text-[11px] font-black text-slate-400 mb-5 uppercase tracking-[0.25em]">Pairing Link</h3>
+                  <div className="p-1 bg-slate-50 rounded-[1.8rem] border border-slate-100"><QRCodeDisplay text={shareLink} size={150} /></div>
+                  <button onClick={() => { navigator.clipboard.writeText(shareLink); alert('Link Copied!'); }} className="mt-4 flex items-center gap-2 text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest"><CopyIcon /> Copy Link</button>
+                  {isHost && (
+                    <p className="mt-2 text-[9px] text-slate-400 font-medium">
+                      {peers.length === 0 ? 'New code' : 'Link renewed'} at {new Date(linkExpires).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                    </p>
+                  )}
+                  {isHost && (
+                    <label className={`mt-3 flex items-center gap-2 text-[9px] font-black text-slate-400 uppercase tracking-widest ${connectedCount > 0 ? 'opacity-40' : 'cursor-pointer'}`}>
+                      <input type="checkbox" checked={!!roomSecret} disabled={connectedCount > 0} onChange={(e) => toggleRequireLink(e.target.checked)} className="accent-purple-600" />
+                      Only joinable through this link
+                    </label>
+                  )}
+                </>
+              )}
               <div className="flex items-center gap-2.5 mt-6 px-4 py-2 bg-slate-50 rounded-full border border-slate-100">
                 <div className={`w-2 h-2 rounded-full ${p2pConnected ? 'bg-green-500 shadow-[0_0_8px_rgba(34,197,94,0.5)]' : 'bg-amber-500 animate-pulse'}`}></div>
-                <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{p2pConnected ? 'P2P TUNNEL OPEN' : `STATE: ${connState.toUpperCase()}`}</p>
+                <p className="text-[10px] text-slate-500 font-black uppercase tracking-widest">{p2pConnected ? `P2P TUNNEL OPEN · ${connectedCount} ${connectedCount === 1 ? 'DEVICE' : 'DEVICES'}` : `STATE: ${connState.toUpperCase()}`}</p>
+              </div>
+              {authFailed && (
+                <p className="mt-4 text-[10px] text-red-500 font-bold leading-relaxed">A device that doesn't share this room code, or that can't encrypt end-to-end, tried to connect. Check the code, open both devices over https and pair again.</p>
+              )}
+              {peers.length > 0 && (
+                <ul className="mt-5 w-full space-y-3 text-left">
+                  {peers.map(peer => (
+                    <li key={peer.peerId} className="p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                      <div className="flex items-center justify-between gap-3">
+                        <span className="text-[10px] font-black text-slate-800 uppercase tracking-widest">{peerLabel(peer.peerId)}</span>
+                        {peer.connected && connectedCount > 1 ? (
+                          <label className="flex items-center gap-2 text-[9px] font-black text-slate-400 uppercase tracking-widest cursor-pointer">
+                            Send
+                            <input type="checkbox" checked={selectedPeers.size === 0 || selectedPeers.has(peer.peerId)} onChange={() => toggleRecipient(peer.peerId)} className="accent-purple-600" />
+                          </label>
+                        ) : (
+                          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{peer.connected ? 'Connected' : connectionLabel(peer)}</span>
+                        )}
+                      </div>
+                      {peer.connected && peer.device && (
+                        <div className="mt-2 flex items-center justify-between gap-3">
+                          <span className="text-[9px] font-mono text-slate-400">{formatFingerprint(peer.device.id)}</span>
+                          {trustedDevices.some(d => d.id === peer.device!.id) ? (
+                            <span className="text-[9px] font-black text-green-600 uppercase tracking-widest">Trusted</span>
+                          ) : peer.device.verified ? (
+                            <button onClick={() => trustDevice(peer.device!)} className="text-[9px] font-black text-purple-600 uppercase tracking-widest hover:text-purple-800">Trust</button>
+                          ) : (
+                            <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Unverified</span>
+                          )}
+                        </div>
+                      )}
+                      {peer.connected && peer.security?.mode === 'e2e' && peer.security.sas && (
+                        <div className="mt-3 p-3 bg-green-50 rounded-xl border border-green-100 text-center">
+                          <p className="text-[9px] font-black text-green-700 uppercase tracking-widest mb-2">End-to-End Encrypted</p>
+                          <p className="text-2xl leading-none">{peer.security.sas.emoji.join(' ')}</p>
+                          <p className="mt-2 font-mono font-bold text-slate-800 tracking-[0.3em]">{peer.security.sas.digits}</p>
+                          <p className="mt-2 text-[9px] text-slate-500 font-medium">Make sure this device shows the same code.</p>
+                        </div>
+                      )}
+                      {peer.connected && peer.security?.mode === 'dtls-only' && (
+                        <div className="mt-3 p-3 bg-amber-50 rounded-xl border border-amber-100">
+                          <p className="text-[9px] font-black text-amber-700 uppercase tracking-widest mb-1">Transport Encryption Only</p>
+                          <p className="text-[9px] text-slate-500 font-medium">Neither device is on a secure (https) origin, so files are protected by WebRTC's DTLS but not end-to-end encrypted.</p>
+                        </div>
+                      )}
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {p2pConnected && (
+              <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm">
+                <h3 className="text-[11px] font-black text-slate-400 mb-4 uppercase tracking-[0.25em]">Diagnostics</h3>
+                <ul className="space-y-3">
+                  {peers.filter(p => p.connected).map(peer => (
+                    <li key={peer.peerId} className="p-4 bg-slate-50 rounded-2xl border border-slate-100 space-y-1 text-[9px] font-black uppercase tracking-widest">
+                      <p className="text-slate-800">{peerLabel(peer.peerId)}</p>
+                      <p className={peer.link?.localType === 'relay' || peer.link?.remoteType === 'relay' ? 'text-amber-600' : 'text-slate-500'}>
+                        {describePath(peer.link)}{peer.link?.protocol && ` · ${peer.link.protocol}`}
+                      </p>
+                      <p className="text-slate-400 tabular-nums">
+                        RTT {peer.link?.rtt !== undefined ? `${Math.round(peer.link.rtt)} ms` : '–'}
+                        {' · ↑ '}{formatRate(peer.link?.sendRate || 0)}
+                        {' · ↓ '}{formatRate(peer.link?.receiveRate || 0)}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {identity && (
+              <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm space-y-4">
+                <h3 className="text-[11px] font-black text-slate-400 uppercase tracking-[0.25em]">Devices</h3>
+                <label className="block text-[9px] font-black text-slate-400 uppercase">This Device
+                  <input type="text" key={identity.name} defaultValue={identity.name} maxLength={40} onBlur={(e) => updateDeviceName(e.target.value)} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-bold text-slate-800 outline-none focus:border-purple-300" />
+                </label>
+                <p className="text-[9px] font-mono text-slate-400">{formatFingerprint(identity.fingerprint)}</p>
+                {!identity.privateKey && (
+                  <p className="text-[9px] text-amber-600 font-bold leading-relaxed">This origin isn't secure (https), so this device has no key and can't trust or be trusted.</p>
+                )}
+                {trustedDevices.length > 0 && (
+                  <ul className="space-y-2">
+                    {trustedDevices.map(device => (
+                      <li key={device.id} className="p-3 bg-slate-50 rounded-2xl border border-slate-100">
+                        <div className="flex items-center justify-between gap-3">
+                          <span className="text-[10px] font-black text-slate-800 truncate">{device.name}</span>
+                          <button onClick={() => forgetDevice(device.id)} className="text-slate-300 hover:text-red-500 transition-colors"><TrashIcon /></button>
+                        </div>
+                        <p className="text-[9px] font-mono text-slate-400">{formatFingerprint(device.id)}</p>
+                        <div className="mt-1 flex items-center justify-between gap-3">
+                          <span className="text-[9px] text-slate-400 font-medium">Seen {new Date(device.lastSeen).toLocaleDateString()}</span>
+                          {identity.privateKey && trustedRoomPeer !== device.id && (
+                            <button onClick={() => reconnectTrusted(device)} className="text-[9px] font-black text-purple-600 uppercase tracking-widest hover:text-purple-800">Reconnect</button>
+                          )}
+                        </div>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm space-y-4">
+              <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.25em]">Send Queue</span>
+              <div className="grid grid-cols-2 gap-2">
+                <label className="block text-[9px] font-black text-slate-400 uppercase">Order
+                  <select value={queueSettings.order} onChange={(e) => setQueueSettings(q => ({ ...q, order: e.target.value as QueueSettings['order'] }))} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs text-slate-800 outline-none focus:border-purple-300">
+                    <option value="fifo">First in, first out</option>
+                    <option value="priority">By priority</option>
+                  </select>
+                </label>
+                <label className="block text-[9px] font-black text-slate-400 uppercase">At Once
+                  <input type="number" min={1} max={MAX_CONCURRENCY} value={queueSettings.concurrency} onChange={(e) => setQueueSettings(q => ({ ...q, concurrency: Math.min(MAX_CONCURRENCY, Math.max(1, Number(e.target.value) || 1)) }))} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 outline-none focus:border-purple-300" />
+                </label>
+              </div>
+              <label className="block text-[9px] font-black text-slate-400 uppercase">Upload Limit (MB/s, 0 = none)
+                <input type="number" min={0} step={0.5} value={bandwidthLimit / (1024 * 1024)} onChange={(e) => setBandwidthLimit(Math.max(0, Number(e.target.value) || 0) * 1024 * 1024)} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 outline-none focus:border-purple-300" />
+              </label>
+              {queued.length > 0 && <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{queued.length} waiting</p>}
+            </div>
+
+            <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm space-y-4">
+              <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.25em]">AI Insights</span>
+              <label className="block text-[9px] font-black text-slate-400 uppercase">Provider
+                <select value={insightSettings.provider} onChange={(e) => setInsightSettings(s => ({ ...s, provider: e.target.value as InsightSettings['provider'] }))} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs text-slate-800 outline-none focus:border-purple-300">
+                  <option value="gemini" disabled={!hasGeminiKey()}>Gemini{hasGeminiKey() ? '' : ' (no API key)'}</option>
+                  <option value="offline">Offline classifier</option>
+                  <option value="disabled">Off</option>
+                </select>
+              </label>
+              <label className="flex items-center justify-between gap-3 cursor-pointer">
+                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Never send this room's metadata to AI</span>
+                <input type="checkbox" checked={isPrivateRoom(insightSettings, roomId)} onChange={(e) => setInsightSettings(s => setRoomPrivate(s, roomId, e.target.checked))} className="accent-purple-600" />
+              </label>
+              <label className={`flex items-center justify-between gap-3 cursor-pointer ${insightSettings.provider === 'gemini' ? '' : 'opacity-40'}`}>
+                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Share content samples with Gemini</span>
+                <input type="checkbox" checked={insightSettings.shareContent} disabled={insightSettings.provider !== 'gemini'} onChange={(e) => setInsightSettings(s => ({ ...s, shareContent: e.target.checked }))} className="accent-purple-600" />
+              </label>
+              {insightSettings.provider === 'gemini' && (
+                <p className="text-[10px] text-slate-400 leading-relaxed">{isPrivateRoom(insightSettings, roomId) || !hasGeminiKey()
+                  ? 'Files in this room are described offline.'
+                  : insightSettings.shareContent
+                    ? 'File names, types and sizes are sent to Gemini, with the first 8 KB of text, a small preview of images or the text of PDFs.'
+                    : 'File names, types and sizes are sent to Gemini.'}</p>
+              )}
+            </div>
+
+            <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm space-y-4">
+              <label className="flex items-center justify-between gap-3 cursor-pointer">
+                <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.25em]">Auto-Accept</span>
+                <input type="checkbox" checked={autoAcceptRules.enabled} onChange={(e) => setAutoAcceptRules(r => ({ ...r, enabled: e.target.checked }))} className="accent-purple-600" />
+              </label>
+              <div className={`space-y-3 ${autoAcceptRules.enabled ? '' : 'opacity-40'}`}>
+                <label className="block text-[9px] font-black text-slate-400 uppercase">Max Size (MB, 0 = any)
+                  <input type="number" min={0} value={Math.round(autoAcceptRules.maxSize / (1024 * 1024))} disabled={!autoAcceptRules.enabled} onChange={(e) => setAutoAcceptRules(r => ({ ...r, maxSize: Math.max(0, Number(e.target.value) || 0) * 1024 * 1024 }))} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 outline-none focus:border-purple-300" />
+                </label>
+                <label className="block text-[9px] font-black text-slate-400 uppercase">File Types (blank = any)
+                  <input type="text" defaultValue={autoAcceptRules.mimeTypes.join(', ')} disabled={!autoAcceptRules.enabled} onBlur={(e) => setAutoAcceptRules(r => ({ ...r, mimeTypes: e.target.value.split(',').map(t => t.trim()).filter(Boolean) }))} placeholder="image/*, application/pdf" className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 outline-none focus:border-purple-300" />
+                </label>
               </div>
             </div>
+
+            <div className="bg-white p-6 rounded-[2.5rem] border border-slate-200 shadow-sm space-y-4">
+              <button onClick={() => setShowNetworkSettings(v => !v)} className="w-full flex items-center justify-between gap-3">
+                <span className="text-[11px] font-black text-slate-400 uppercase tracking-[0.25em]">Network</span>
+                <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{showNetworkSettings ? 'Hide' : 'Edit'}</span>
+              </button>
+              {iceError && <p className="text-[10px] text-red-500 font-bold leading-relaxed">{iceError}</p>}
+              {showNetworkSettings && (
+                <div className="space-y-3">
+                  <label className="block text-[9px] font-black text-slate-400 uppercase">STUN Servers
+                    <textarea defaultValue={iceSettings.stunUrls.join('\n')} onBlur={(e) => setIceSettings(s => ({ ...s, stunUrls: e.target.value.split(/\s+/).filter(Boolean) }))} placeholder="stun:stun.example.com:3478" className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 h-16 resize-none outline-none focus:border-purple-300" />
+                  </label>
+                  <label className="block text-[9px] font-black text-slate-400 uppercase">TURN Servers
+                    <textarea defaultValue={iceSettings.turnUrls.join('\n')} onBlur={(e) => setIceSettings(s => ({ ...s, turnUrls: e.target.value.split(/\s+/).filter(Boolean) }))} placeholder="turn:turn.example.com:3478?transport=udp" className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 h-16 resize-none outline-none focus:border-purple-300" />
+                  </label>
+                  <div className="grid grid-cols-2 gap-2">
+                    <label className="block text-[9px] font-black text-slate-400 uppercase">Username
+                      <input type="text" defaultValue={iceSettings.turnUsername} onBlur={(e) => setIceSettings(s => ({ ...s, turnUsername: e.target.value.trim() }))} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 outline-none focus:border-purple-300" />
+                    </label>
+                    <label className="block text-[9px] font-black text-slate-400 uppercase">Credential
+                      <input type="password" defaultValue={iceSettings.turnCredential} onBlur={(e) => setIceSettings(s => ({ ...s, turnCredential: e.target.value }))} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 outline-none focus:border-purple-300" />
+                    </label>
+                  </div>
+                  <label className="block text-[9px] font-black text-slate-400 uppercase">Credentials URL (TURN REST API)
+                    <input type="url" defaultValue={iceSettings.credentialsUrl} onBlur={(e) => setIceSettings(s => ({ ...s, credentialsUrl: e.target.value.trim() }))} placeholder="http://192.168.1.20:8787/turn-credentials" className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 outline-none focus:border-purple-300" />
+                  </label>
+                  <label className="flex items-center justify-between gap-3 cursor-pointer">
+                    <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Relay only (hide local addresses)</span>
+                    <input type="checkbox" checked={iceSettings.relayOnly} onChange={(e) => setIceSettings(s => ({ ...s, relayOnly: e.target.checked }))} className="accent-purple-600" />
+                  </label>
+                  <button onClick={testIceServers} disabled={iceProbe === null} className="w-full py-3 bg-slate-100 text-slate-700 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all disabled:opacity-40">{iceProbe === null ? 'Testing…' : 'Test Servers'}</button>
+                  {iceProbe && (
+                    <p className={`text-[9px] font-bold leading-relaxed ${iceProbe.includes('relay') ? 'text-green-600' : 'text-amber-600'}`}>
+                      {iceProbe.length === 0 ? 'No candidates gathered.' : `Gathered: ${iceProbe.join(', ')}.`}
+                      {iceProbe.includes('relay') ? ' The TURN server accepted the credentials.' : iceSettings.turnUrls.length > 0 || iceSettings.credentialsUrl ? ' No relay candidate: check the TURN URL and credentials.' : ''}
+                    </p>
+                  )}
+                  <p className="text-[9px] text-slate-400 font-medium">Changes apply the next time you open or join a room.</p>
+                </div>
+              )}
+            </div>
           </div>
 
           <div className="lg:col-span-2 space-y-5">
@@ -256,65 +1466,251 @@ const App: React.FC = () => {
                     files.map(file => (
                       <div key={file.id} className="bg-white p-7 rounded-[2.5rem] border border-slate-200 shadow-sm relative transition-all animate-in fade-in slide-in-from-bottom-2">
                         <div className="flex items-start gap-5">
-                          <div className={`p-4 rounded-[1.5rem] shadow-sm ${file.sender === deviceType ? 'bg-purple-50 text-purple-600' : 'bg-emerald-50 text-emerald-600'}`}>{file.sender === 'Mac' ? <LaptopIcon /> : <SmartphoneIcon />}</div>
+                          <div className={`p-4 rounded-[1.5rem] shadow-sm ${file.direction === 'outgoing' ? 'bg-purple-50 text-purple-600' : 'bg-emerald-50 text-emerald-600'}`}><DeviceIcon device={file.sender} /></div>
                           <div className="flex-1 min-w-0">
                             <div className="flex items-center justify-between mb-2">
                               <h3 className="text-sm font-black text-slate-900 truncate tracking-tight">{file.name}</h3>
                               <span className="text-[10px] font-black text-slate-400 tabular-nums">{formatSize(file.size)}</span>
                             </div>
                             <div className="flex items-center gap-2 mb-2 p-1.5 bg-slate-50 rounded-lg border border-slate-100 w-fit">
-                              <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{file.sender}</span>
+                              <span className="text-[9px] font-black uppercase tracking-widest text-slate-400">{file.direction === 'outgoing' ? 'Me' : file.sender.name}</span>
                               <TransferArrowIcon className="text-slate-300 w-3 h-3" />
-                              <span className="text-[9px] font-black uppercase tracking-widest text-blue-600">{file.sender === deviceType ? (deviceType === 'Mac' ? 'Android' : 'Mac') : 'Me'}</span>
+                              <span className="text-[9px] font-black uppercase tracking-widest text-blue-600">{file.direction === 'incoming' ? 'Me' : file.recipients && file.recipients.length > 1 ? `${file.recipients.length} devices` : file.recipients?.[0] ? peerLabel(file.recipients[0].peerId) : 'Nobody'}</span>
                             </div>
-                            {(file.status === TransferStatus.UPLOADING || file.status === TransferStatus.PAUSED) ? (
+                            {file.bundle && (
+                              <div className="mb-2">
+                                <button
+                                  onClick={() => setExpandedBundles(prev => { const next = new Set(prev); next.has(file.id) ? next.delete(file.id) : next.add(file.id); return next; })}
+                                  className="text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest"
+                                >
+                                  {file.bundle.length} files · {expandedBundles.has(file.id) ? 'Hide' : 'Show'}
+                                </button>
+                                {expandedBundles.has(file.id) && (
+                                  <ul className="mt-2 max-h-48 overflow-y-auto p-3 bg-slate-50 rounded-xl border border-slate-100 space-y-1">
+                                    {file.bundle.map(entry => (
+                                      <li key={entry.path} className="flex justify-between gap-3 text-[10px] font-mono text-slate-600">
+                                        <span className="truncate">{entry.path}</span>
+                                        <span className="shrink-0 text-slate-400">{formatSize(entry.size)}</span>
+                                      </li>
+                                    ))}
+                                  </ul>
+                                )}
+                              </div>
+                            )}
+                            {file.text !== undefined ? (
+                              <div className="mt-3 p-4 bg-slate-50 rounded-2xl border border-slate-100">
+                                <LinkifiedText text={file.text} className="text-xs font-medium text-slate-700 max-h-48 overflow-y-auto" />
+                                <button onClick={() => { navigator.clipboard.writeText(file.text!); alert('Copied!'); }} className="mt-3 flex items-center gap-2 text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest"><CopyIcon /> Copy</button>
+                              </div>
+                            ) : file.status === TransferStatus.PENDING ? (
+                              file.direction === 'outgoing' ? (
+                                <div className="flex justify-between items-center mt-4 gap-3">
+                                  {queuePosition(file.id) >= 0 ? (
+                                    <div className="flex items-center gap-3">
+                                      <p className="text-[9px] font-black uppercase text-slate-400">Queued · #{queuePosition(file.id) + 1}</p>
+                                      <button onClick={() => queueRef.current!.move(file.id, -1)} disabled={queuePosition(file.id) === 0} className="text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest disabled:opacity-30">Up</button>
+                                      <button onClick={() => queueRef.current!.move(file.id, 1)} disabled={queuePosition(file.id) === queued.length - 1} className="text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest disabled:opacity-30">Down</button>
+                                      {queueSettings.order === 'priority' && (
+                                        <select value={queued[queuePosition(file.id)].priority} onChange={(e) => queueRef.current!.setPriority(file.id, e.target.value as QueuePriority)} className="px-2 py-1 bg-slate-50 border border-slate-100 rounded-lg text-[9px] font-black uppercase text-slate-500 outline-none">
+                                          <option value="high">High</option>
+                                          <option value="normal">Normal</option>
+                                          <option value="low">Low</option>
+                                        </select>
+                                      )}
+                                    </div>
+                                  ) : (
+                                    <p className="text-[9px] font-black uppercase text-slate-400 animate-pulse">Waiting for the receiver to accept</p>
+                                  )}
+                                  <button onClick={() => cancelOutgoing(file)} className="shrink-0 text-[9px] font-black text-slate-400 hover:text-red-500 uppercase tracking-widest">Cancel</button>
+                                </div>
+                              ) : (
+                                <div className="mt-4 space-y-3">
+                                  {file.thumbnail && <img src={file.thumbnail} alt="" className="max-h-24 rounded-xl border border-slate-100" />}
+                                  <div className="flex gap-2">
+                                    <button onClick={() => acceptOffer(file.id)} className="flex-1 py-3 bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-black transition-all">Accept</button>
+                                    {(file.bundle ? !!window.showDirectoryPicker : !!window.showSaveFilePicker) && (
+                                      <button onClick={() => acceptOfferTo(file)} className="flex-1 py-3 bg-slate-100 text-slate-700 rounded-2xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-200 transition-all">Save To…</button>
+                                    )}
+                                    <button onClick={() => removeFile(file)} className="flex-1 py-3 bg-red-50 text-red-600 rounded-2xl text-[10px] font-black uppercase tracking-widest border border-red-100 hover:bg-red-100 transition-all">Decline</button>
+                                  </div>
+                                  <button onClick={() => file.peerId && trustPeer(file.peerId)} className="text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest">Accept everything from this device</button>
+                                </div>
+                              )
+                            ) : (file.status === TransferStatus.UPLOADING || file.status === TransferStatus.PAUSED) ? (
                               <div className="mt-4">
                                 <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
                                   <div 
-                                    className={`h-full transition-all duration-300 ${file.status === TransferStatus.PAUSED ? 'bg-amber-400' : 'bg-gradient-to-r from-purple-600 to-pink-500'}`} 
+                                    className={`h-full transition-all duration-300 ${pauseLabel(file) ? 'bg-amber-400' : 'bg-gradient-to-r from-purple-600 to-pink-500'}`} 
                                     style={{ width: `${file.progress}%` }}
                                   ></div>
                                 </div>
                                 <div className="flex justify-between items-center mt-2">
-                                  <p className={`text-[9px] font-black uppercase ${file.status === TransferStatus.PAUSED ? 'text-amber-600' : 'text-purple-600'}`}>
-                                    {file.status === TransferStatus.PAUSED ? 'Paused' : `Streaming: ${file.progress}%`}
+                                  <p className={`text-[9px] font-black uppercase ${pauseLabel(file) || waitingOnLink(file) ? 'text-amber-600' : 'text-purple-600'}`}>
+                                    {pauseLabel(file) || (waitingOnLink(file) ? `Waiting for reconnect: ${Math.round(file.progress)}%` : `Streaming: ${Math.round(file.progress)}%`)}
+                                    {!pauseLabel(file) && !waitingOnLink(file) && !!file.stats?.currentRate && (
+                                      <span className="text-slate-400"> · {formatRate(file.stats.currentRate)}{file.stats.eta !== undefined && ` · ${formatDuration(file.stats.eta)} left`}</span>
+                                    )}
+                                    {!!throttleOf(file) && <span className="text-slate-400"> · Limited to {formatRate(throttleOf(file))}</span>}
                                   </p>
-                                  {file.sender === deviceType && (
-                                    <button 
-                                      onClick={() => togglePause(file.id, file.status)}
-                                      className="text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest"
-                                    >
-                                      {file.status === TransferStatus.PAUSED ? 'Resume' : 'Pause'}
-                                    </button>
+                                  {file.direction === 'outgoing' && (
+                                    <div className="flex gap-3">
+                                      <button 
+                                        onClick={() => togglePause(file)}
+                                        className="text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest"
+                                      >
+                                        {file.status === TransferStatus.PAUSED ? 'Resume' : 'Pause'}
+                                      </button>
+                                      <button onClick={() => cancelOutgoing(file)} className="text-[9px] font-black text-slate-400 hover:text-red-500 uppercase tracking-widest">Cancel</button>
+                                    </div>
+                                  )}
+                                  {file.direction === 'incoming' && !waitingOnLink(file) && (
+                                    <div className="flex items-center gap-3">
+                                      <select value={file.throttle || 0} onChange={(e) => controlIncoming(file, { rate: Number(e.target.value) })} className="px-2 py-1 bg-slate-50 border border-slate-100 rounded-lg text-[9px] font-black uppercase text-slate-500 outline-none">
+                                        {THROTTLE_OPTIONS.map(rate => <option key={rate} value={rate}>{rate ? `${formatSize(rate)}/s` : 'Full speed'}</option>)}
+                                      </select>
+                                      <button onClick={() => controlIncoming(file, { paused: !file.receiverPaused })} className="text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest">
+                                        {file.receiverPaused ? 'Resume' : 'Pause'}
+                                      </button>
+                                    </div>
+                                  )}
+                                </div>
+                              </div>
+                            ) : file.status === TransferStatus.INTERRUPTED ? (
+                              <div className="mt-4">
+                                <div className="h-1.5 w-full bg-slate-100 rounded-full overflow-hidden">
+                                  <div className="h-full bg-amber-400" style={{ width: `${file.progress}%` }}></div>
+                                </div>
+                                <div className="flex justify-between items-center mt-2 gap-3">
+                                  <p className="text-[9px] font-black uppercase text-amber-600">Interrupted at {Math.round(file.progress)}% · {file.errorMessage}</p>
+                                  {file.direction === 'outgoing' && !!pendingResumesRef.current.get(file.id)?.size && (
+                                    <label className="relative shrink-0 text-[9px] font-black text-slate-400 hover:text-slate-900 uppercase tracking-widest cursor-pointer">
+                                      Select File
+                                      <input type="file" onChange={(e) => handleResumeReselect(file.id, e)} className="hidden" />
+                                    </label>
                                   )}
                                 </div>
                               </div>
                             ) : file.status === TransferStatus.FAILED ? (
                               <div className="mt-3 p-3 bg-red-50 border border-red-100 rounded-xl text-[10px] text-red-600 font-bold">{file.errorMessage}</div>
+                            ) : file.status === TransferStatus.CANCELLED ? (
+                              <div className="mt-3 p-3 bg-slate-50 border border-slate-100 rounded-xl text-[10px] text-slate-500 font-bold">{file.errorMessage || 'Cancelled'}</div>
                             ) : (
                               <>
                                 <div className="flex items-center gap-2 mt-2"><CheckIcon className="w-4 h-4" /><span className="text-[10px] font-black text-green-600 uppercase">Verified</span></div>
-                                {file.aiInsight && <div className="mt-4 p-4 bg-slate-50 rounded-2xl border border-slate-100 italic text-[11px] text-slate-500">"{file.aiInsight}"</div>}
-                                <a href={file.url} download={file.name} className="mt-5 block w-full py-3.5 text-center bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase hover:bg-black transition-all">Download Local Copy</a>
+                                {file.insight && <InsightDetails insight={file.insight} onTag={showTag} />}
+                                {file.url ? (
+                                  <a href={file.url} download={file.name} className="mt-5 block w-full py-3.5 text-center bg-slate-900 text-white rounded-2xl text-[10px] font-black uppercase hover:bg-black transition-all">Download Local Copy</a>
+                                ) : file.bundle && file.direction === 'incoming' && (
+                                  <p className="mt-5 text-[10px] font-black text-slate-400 uppercase">Saved to the folder you picked</p>
+                                )}
                               </>
                             )}
+                            {file.text === undefined && file.recipients && file.recipients.length > 1 && (
+                              <ul className="mt-4 space-y-2">
+                                {file.recipients.map(recipient => (
+                                  <li key={recipient.peerId}>
+                                    <div className="flex justify-between gap-3 text-[9px] font-black uppercase tracking-widest">
+                                      <span className="text-slate-500">{peerLabel(recipient.peerId)}</span>
+                                      <span className={recipient.status === TransferStatus.FAILED ? 'text-red-500' : recipient.status === TransferStatus.COMPLETED ? 'text-green-600' : 'text-slate-400'} title={recipient.errorMessage}>
+                                        {recipient.status === TransferStatus.UPLOADING ? (recipient.receiverPaused ? 'paused by receiver' : `${Math.round(recipient.progress)}%`) : recipient.status.toLowerCase()}
+                                      </span>
+                                    </div>
+                                    <div className="mt-1 h-1 w-full bg-slate-100 rounded-full overflow-hidden">
+                                      <div
+                                        className={`h-full transition-all duration-300 ${recipient.status === TransferStatus.FAILED ? 'bg-red-400' : recipient.status === TransferStatus.PAUSED || recipient.status === TransferStatus.INTERRUPTED || recipient.receiverPaused ? 'bg-amber-400' : 'bg-gradient-to-r from-purple-600 to-pink-500'}`}
+                                        style={{ width: `${recipient.progress}%` }}
+                                      ></div>
+                                    </div>
+                                  </li>
+                                ))}
+                              </ul>
+                            )}
                           </div>
                         </div>
-                        <button onClick={() => setFiles(prev => prev.filter(f => f.id !== file.id))} className="absolute top-7 right-7 text-slate-200 hover:text-red-500 transition-colors"><TrashIcon /></button>
+                        <button onClick={() => removeFile(file)} className="absolute top-7 right-7 text-slate-200 hover:text-red-500 transition-colors"><TrashIcon /></button>
                       </div>
                     ))
                   )}
                 </div>
               ) : (
                 <div className="space-y-4">
-                  {history.map(item => (
+                  <div className="bg-white p-5 rounded-[2rem] border border-slate-200 space-y-3">
+                    <input type="search" value={historyFilter.query} onChange={(e) => setHistoryFilter(f => ({ ...f, query: e.target.value }))} placeholder="Search names, text and tags..." className="w-full px-4 py-3 bg-slate-50 border border-slate-100 rounded-2xl text-xs outline-none focus:border-purple-300" />
+                    <div className="grid grid-cols-2 sm:grid-cols-3 gap-2 text-[10px] font-bold text-slate-600">
+                      <select value={historyFilter.deviceId} onChange={(e) => setHistoryFilter(f => ({ ...f, deviceId: e.target.value }))} className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none">
+                        <option value="">All devices</option>
+                        {historyDevices(history).map(device => <option key={device.id} value={device.id}>{device.name}</option>)}
+                      </select>
+                      <select value={historyFilter.kind} onChange={(e) => setHistoryFilter(f => ({ ...f, kind: e.target.value as HistoryFilter['kind'] }))} className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none">
+                        <option value="">All types</option>
+                        <option value="image">Images</option>
+                        <option value="video">Videos</option>
+                        <option value="audio">Audio</option>
+                        <option value="document">Documents</option>
+                        <option value="archive">Archives</option>
+                        <option value="text">Text</option>
+                        <option value="other">Other</option>
+                      </select>
+                      <select value={historyFilter.direction} onChange={(e) => setHistoryFilter(f => ({ ...f, direction: e.target.value as HistoryFilter['direction'] }))} className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none">
+                        <option value="">Sent and received</option>
+                        <option value="outgoing">Sent</option>
+                        <option value="incoming">Received</option>
+                      </select>
+                      <select value={historyFilter.tag} onChange={(e) => setHistoryFilter(f => ({ ...f, tag: e.target.value }))} className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none">
+                        <option value="">All tags</option>
+                        {historyTags(history).map(tag => <option key={tag} value={tag}>#{tag}</option>)}
+                      </select>
+                      <input type="date" value={historyFilter.from} onChange={(e) => setHistoryFilter(f => ({ ...f, from: e.target.value }))} aria-label="From" className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none" />
+                      <input type="date" value={historyFilter.to} onChange={(e) => setHistoryFilter(f => ({ ...f, to: e.target.value }))} aria-label="To" className="px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl outline-none" />
+                      <button onClick={() => setHistoryFilter(EMPTY_HISTORY_FILTER)} className="px-3 py-2 bg-slate-100 rounded-xl uppercase tracking-widest text-[9px] font-black text-slate-500 hover:bg-slate-200">Clear</button>
+                    </div>
+                    <div className="flex flex-wrap items-center justify-between gap-3">
+                      <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{shownHistory.length} of {history.length} entries</span>
+                      <div className="flex gap-2">
+                        <button onClick={() => exportHistory('json')} disabled={shownHistory.length === 0} className="px-3 py-2 bg-slate-900 text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-40">Export JSON</button>
+                        <button onClick={() => exportHistory('csv')} disabled={shownHistory.length === 0} className="px-3 py-2 bg-slate-900 text-white rounded-xl text-[9px] font-black uppercase tracking-widest disabled:opacity-40">Export CSV</button>
+                        <button onClick={() => setShowHistorySettings(v => !v)} className="px-3 py-2 bg-slate-100 text-slate-600 rounded-xl text-[9px] font-black uppercase tracking-widest hover:bg-slate-200">Retention</button>
+                      </div>
+                    </div>
+                    {showHistorySettings && (
+                      <div className="pt-3 border-t border-slate-100 space-y-3">
+                        <label className="flex items-center justify-between gap-3 cursor-pointer">
+                          <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Keep received files for downloading again</span>
+                          <input type="checkbox" checked={historySettings.keepFiles} onChange={(e) => setHistorySettings(h => ({ ...h, keepFiles: e.target.checked }))} className="accent-purple-600" />
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                          <label className="block text-[9px] font-black text-slate-400 uppercase">Delete after (days, 0 = never)
+                            <input type="number" min={0} defaultValue={historySettings.maxAgeDays} onBlur={(e) => setHistorySettings(h => ({ ...h, maxAgeDays: Math.max(0, Math.floor(Number(e.target.value) || 0)) }))} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 outline-none focus:border-purple-300" />
+                          </label>
+                          <label className="block text-[9px] font-black text-slate-400 uppercase">Kept files (MB, 0 = no limit)
+                            <input type="number" min={0} defaultValue={Math.round(historySettings.maxFileBytes / (1024 * 1024))} onBlur={(e) => setHistorySettings(h => ({ ...h, maxFileBytes: Math.max(0, Number(e.target.value) || 0) * 1024 * 1024 }))} className="mt-1 block w-full px-3 py-2 bg-slate-50 border border-slate-100 rounded-xl text-xs font-mono text-slate-800 outline-none focus:border-purple-300" />
+                          </label>
+                        </div>
+                        <p className="text-[9px] text-slate-400 font-medium">The oldest kept files are deleted first once the limit is reached. Turning keeping off deletes the copies.</p>
+                      </div>
+                    )}
+                  </div>
+                  {shownHistory.map(item => (
                     <div key={item.id} className="bg-white p-6 rounded-[2rem] border border-slate-200 opacity-90">
                       <div className="flex items-center gap-5">
                         <div className="p-3 bg-slate-50 rounded-2xl text-slate-400"><FileIcon /></div>
                         <div className="flex-1 min-w-0">
                           <h4 className="text-xs font-black text-slate-700 truncate">{item.name}</h4>
-                          <p className="text-[9px] font-black text-slate-400 uppercase mt-1">{new Date(item.timestamp).toLocaleTimeString()} • {formatSize(item.size)}</p>
+                          <p className="text-[9px] font-black text-slate-400 uppercase mt-1">
+                            {new Date(item.timestamp).toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })} • {item.direction === 'outgoing' ? `To ${(item.recipients || []).map(device => device.name).join(', ') || 'peer'}` : `From ${item.sender.name}`} • {formatSize(item.size)}
+                            {item.averageRate !== undefined && ` • ${formatRate(item.averageRate)}`}
+                            {item.path && ` • ${item.path}`}
+                          </p>
+                          {item.text !== undefined && <LinkifiedText text={item.text} className="mt-2 text-[11px] text-slate-600 line-clamp-3" />}
+                          {item.insight && <InsightDetails insight={item.insight} onTag={tag => setHistoryFilter(f => ({ ...f, tag }))} />}
                         </div>
+                        {item.text !== undefined && (
+                          <button onClick={() => { navigator.clipboard.writeText(item.text!); alert('Copied!'); }} className="text-slate-300 hover:text-purple-600 transition-colors p-1"><CopyIcon /></button>
+                        )}
+                        {item.fileKept && (
+                          <button onClick={() => downloadKeptFile(item)} className="text-[9px] font-black text-purple-600 uppercase tracking-widest hover:text-purple-800">Download</button>
+                        )}
+                        <button onClick={() => removeHistoryItem(item.id)} className="text-slate-200 hover:text-red-500 transition-colors p-1"><TrashIcon /></button>
                       </div>
                     </div>
                   ))}
@@ -325,14 +1721,35 @@ const App: React.FC = () => {
         </div>
       </main>
 
+      {isDragging && (
+        <div className="fixed inset-0 z-40 flex items-center justify-center p-8 bg-purple-900/40 backdrop-blur-sm pointer-events-none animate-in fade-in">
+          <div className="w-full h-full border-4 border-dashed border-white/70 rounded-[3rem] flex items-center justify-center">
+            <p className="text-white text-2xl font-black uppercase tracking-widest">{p2pConnected ? 'Drop to Send' : 'Pair a Device First'}</p>
+          </div>
+        </div>
+      )}
+
       {/* Manual Handshake Modal */}
       {showManualHandshake && (
         <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-slate-900/80 backdrop-blur-sm animate-in fade-in">
-          <div className="bg-white w-full max-w-lg rounded-[3rem] p-10 border border-slate-200 shadow-2xl space-y-6">
+          <div className="bg-white w-full max-w-lg max-h-[92vh] overflow-y-auto rounded-[3rem] p-10 border border-slate-200 shadow-2xl space-y-6">
             <div className="text-center">
               <h2 className="text-xl font-black text-slate-900 uppercase tracking-widest">Manual Pairing</h2>
-              <p className="text-sm text-slate-500 font-medium mt-2">Use this if the devices are on different physical networks.</p>
+              <p className="text-sm text-slate-500 font-medium mt-2">
+                {isHost
+                  ? 'Let the other device scan this code, then scan the code it shows back. No network signaling needed.'
+                  : "Scan the code on the host, then let the host scan the code shown here. No network signaling needed."}
+              </p>
             </div>
+            {isHost && !manualToken && (
+              <p className="text-center text-[10px] font-black text-slate-400 uppercase tracking-widest animate-pulse">Gathering network candidates…</p>
+            )}
+            {manualToken && (
+              <div className="flex justify-center"><TokenQRCode token={manualToken} /></div>
+            )}
+            {(isHost ? !!manualToken : !manualToken) && (
+              <button onClick={scanToken} className="w-full py-4 bg-slate-900 text-white rounded-2xl text-xs font-black uppercase tracking-widest hover:bg-black transition-all">{isHost ? 'Scan Answer' : "Scan Host's Code"}</button>
+            )}
             {manualToken && (
               <div className="space-y-2">
                 <label className="text-[10px] font-black text-slate-400 uppercase">Your Tunnel Token (Send this to peer)</label>
@@ -345,12 +1762,22 @@ const App: React.FC = () => {
             <div className="space-y-2">
               <label className="text-[10px] font-black text-slate-400 uppercase">Input Peer Token (Paste received token)</label>
               <textarea value={inputToken} onChange={(e) => setInputToken(e.target.value)} placeholder="Paste token from other device..." className="w-full p-4 bg-white border border-slate-200 rounded-2xl font-mono text-[9px] h-24 resize-none outline-none focus:border-purple-300" />
-              <button onClick={processInputToken} className="w-full py-4 bg-purple-600 text-white rounded-2xl text-xs font-black uppercase tracking-widest hover:bg-purple-700">Link Tunnel</button>
+              <button onClick={() => processToken(inputToken)} className="w-full py-4 bg-purple-600 text-white rounded-2xl text-xs font-black uppercase tracking-widest hover:bg-purple-700">Link Tunnel</button>
             </div>
             <button onClick={() => setShowManualHandshake(false)} className="w-full text-[10px] font-black text-slate-400 uppercase hover:text-slate-900">Close Handshake</button>
           </div>
         </div>
       )}
+
+      {isScanningToken && (
+        <QRScanner
+          accept={acceptTokenFrame}
+          onScan={token => { setIsScanningToken(false); processToken(token); }}
+          onClose={() => setIsScanningToken(false)}
+          title="Scan Pairing Code"
+          hint={tokenScanProgress ? `Got ${tokenScanProgress} frames, keep pointing at the code` : 'Point your camera at the code on the other device'}
+        />
+      )}
     </div>
   );
 };
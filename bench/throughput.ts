@@ -0,0 +1,126 @@
+import { SignalingTransport, SignalMessage } from '../services/signalingService';
+import { TransferTuning, WebRTCService } from '../services/webrtcService';
+import { TransferReceiver } from '../services/transferReceiver';
+
+// Two peers in one page: the host sends, the guest receives through the real
+// TransferReceiver (files up to 64 MB stay in memory, so storage isn't measured).
+
+type Content = 'random' | 'log';
+
+const SETTINGS: { label: string; content: Content; tuning: TransferTuning }[] = [
+  { label: '1 channel, 16 KB chunks', content: 'random', tuning: { dataChannels: 0, adaptiveChunks: false } },
+  { label: '1 channel, adaptive chunks', content: 'random', tuning: { dataChannels: 0 } },
+  { label: '4 data channels, 16 KB chunks', content: 'random', tuning: { dataChannels: 4, adaptiveChunks: false } },
+  { label: '4 data channels, adaptive chunks', content: 'random', tuning: { dataChannels: 4 } },
+  { label: 'Log file, uncompressed', content: 'log', tuning: { dataChannels: 4, compression: false } },
+  { label: 'Log file, compressed', content: 'log', tuning: { dataChannels: 4 } }
+];
+
+// Stands in for the relay by handing each signal straight to the other side
+class LoopbackTransport implements SignalingTransport {
+  peer: LoopbackTransport | null = null;
+  private onMessageCallback: ((message: SignalMessage) => void) | null = null;
+
+  send(message: SignalMessage) {
+    const copy = JSON.parse(JSON.stringify(message));
+    setTimeout(() => this.peer?.onMessageCallback?.(copy), 0);
+  }
+
+  setOnMessage(callback: (message: SignalMessage) => void) {
+    this.onMessageCallback = callback;
+  }
+
+  close() {
+    this.peer = null;
+  }
+}
+
+const randomFile = (size: number) => {
+  const bytes = new Uint8Array(size);
+  // getRandomValues fills at most 64 KB per call
+  for (let offset = 0; offset < size; offset += 65536) {
+    crypto.getRandomValues(bytes.subarray(offset, Math.min(offset + 65536, size)));
+  }
+  return new File([bytes], 'bench.bin', { type: 'application/octet-stream' });
+};
+
+// Server-log-like lines: repetitive structure with varying numbers, which is what compression is for
+const logFile = (size: number) => {
+  const encoder = new TextEncoder();
+  const bytes = new Uint8Array(size);
+  let offset = 0;
+  for (let i = 0; offset < size; i++) {
+    const line = `${new Date(1700000000000 + i * 37).toISOString()} INFO http request id=${i} method=GET path=/api/items/${(i * 7919) % 100000} status=200 duration_ms=${(i * 31) % 997}\n`;
+    offset += encoder.encodeInto(line, bytes.subarray(offset)).written;
+  }
+  return new File([bytes], 'bench.log', { type: 'text/plain' });
+};
+
+const whenOpen = (service: WebRTCService) => new Promise<void>(resolve => {
+  service.setOnStatusChange((connected, state) => {
+    if (connected && state === 'open') resolve();
+  });
+});
+
+// Wire bytes count whole frames, headers included, so they can come out slightly above the file size
+const measure = async (file: File, tuning: TransferTuning): Promise<{ elapsed: number; wireBytes: number }> => {
+  const roomId = Math.random().toString(36).substring(2, 8).toUpperCase();
+  const hostSignals = new LoopbackTransport();
+  const guestSignals = new LoopbackTransport();
+  hostSignals.peer = guestSignals;
+  guestSignals.peer = hostSignals;
+
+  const host = new WebRTCService(roomId, true, hostSignals, tuning);
+  const guest = new WebRTCService(roomId, false, guestSignals, tuning);
+  const receiver = new TransferReceiver(message => guest.sendControl(message));
+  receiver.setOnOffer(offer => receiver.accept(offer.id));
+  let wireBytes = 0;
+  guest.setOnMessage(data => {
+    if (typeof data === 'string') {
+      receiver.handleControl(JSON.parse(data), 'host');
+    } else if (data instanceof ArrayBuffer) {
+      wireBytes += data.byteLength;
+      receiver.handleFrame(data, 'host');
+    }
+  });
+
+  try {
+    await Promise.all([whenOpen(host), whenOpen(guest)]);
+    const started = performance.now();
+    await host.sendFile(`bench-${roomId}`, file, () => {});
+    return { elapsed: performance.now() - started, wireBytes };
+  } finally {
+    host.destroy();
+    guest.destroy();
+  }
+};
+
+const run = async () => {
+  const sizeInput = document.getElementById('size') as HTMLInputElement;
+  const status = document.getElementById('status')!;
+  const results = document.getElementById('results')!;
+  const button = document.getElementById('run') as HTMLButtonElement;
+
+  const megabytes = Math.max(1, Number(sizeInput.value) || 1);
+  const files: Record<Content, File> = { random: randomFile(megabytes * 1024 * 1024), log: logFile(megabytes * 1024 * 1024) };
+  button.disabled = true;
+  results.innerHTML = '';
+
+  try {
+    for (const { label, content, tuning } of SETTINGS) {
+      status.textContent = `Running: ${label}…`;
+      const file = files[content];
+      const { elapsed, wireBytes } = await measure(file, tuning);
+      const row = document.createElement('tr');
+      row.innerHTML = `<td>${label}</td><td class="num">${(elapsed / 1000).toFixed(2)} s</td><td class="num">${(megabytes / (elapsed / 1000)).toFixed(1)} MB/s</td><td class="num">${((wireBytes / file.size) * 100).toFixed(1)}%</td>`;
+      results.appendChild(row);
+    }
+    status.textContent = 'Done.';
+  } catch (err: any) {
+    status.textContent = `Failed: ${err.message}`;
+  } finally {
+    button.disabled = false;
+  }
+};
+
+document.getElementById('run')!.addEventListener('click', run);
@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface LinkifiedTextProps {
+  text: string;
+  className?: string;
+}
+
+const URL_PATTERN = /(https?:\/\/[^\s<>"']+[^\s<>"'.,;:!?)\]])/g;
+
+// Renders plain text with http(s) URLs turned into links; nothing else is interpreted
+const LinkifiedText: React.FC<LinkifiedTextProps> = ({ text, className = '' }) => {
+  const parts = text.split(URL_PATTERN);
+  return (
+    <p className={`whitespace-pre-wrap break-words ${className}`}>
+      {parts.map((part, i) => i % 2 === 1 ? (
+        <a key={i} href={part} target="_blank" rel="noopener noreferrer" className="text-purple-600 underline hover:text-purple-800">{part}</a>
+      ) : (
+        <React.Fragment key={i}>{part}</React.Fragment>
+      ))}
+    </p>
+  );
+};
+
+export default LinkifiedText;
@@ -6,12 +6,23 @@ import { CloseIcon } from './Icons';
 interface QRScannerProps {
   onScan: (data: string) => void;
   onClose: () => void;
+  // Turns a decoded payload into the scan result, or null to keep scanning; defaults to 6-character room codes
+  accept?: (data: string) => string | null;
+  title?: string;
+  hint?: string;
 }
 
-const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
+const acceptRoomCode = (data: string) => data.length === 6 ? data.toUpperCase() : null;
+
+const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose, accept = acceptRoomCode, title = 'Align Orbit Code', hint = 'Point your camera at the QR code on the other device' }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [error, setError] = useState<string | null>(null);
+  // Read from the animation loop, so a re-rendering parent doesn't restart the camera
+  const onScanRef = useRef(onScan);
+  onScanRef.current = onScan;
+  const acceptRef = useRef(accept);
+  acceptRef.current = accept;
 
   useEffect(() => {
     let animationFrameId: number;
@@ -50,12 +61,10 @@ const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
             inversionAttempts: 'dontInvert',
           });
 
-          if (code) {
-            // Check if it's a valid 6-character room code
-            if (code.data && code.data.length === 6) {
-              onScan(code.data.toUpperCase());
-              return; // Stop scanning
-            }
+          const result = code?.data ? acceptRef.current(code.data) : null;
+          if (result) {
+            onScanRef.current(result);
+            return; // Stop scanning
           }
         }
       }
@@ -70,7 +79,7 @@ const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
         stream.getTracks().forEach(track => track.stop());
       }
     };
-  }, [onScan]);
+  }, []);
 
   return (
     <div className="fixed inset-0 z-[100] bg-[#0d0e17] flex flex-col items-center justify-center p-6">
@@ -108,8 +117,8 @@ const QRScanner: React.FC<QRScannerProps> = ({ onScan, onClose }) => {
       </div>
 
       <div className="mt-12 text-center space-y-2">
-        <h3 className="text-xl font-black text-white tracking-widest uppercase">Align Orbit Code</h3>
-        <p className="text-slate-400 text-sm font-medium">Point your camera at the QR code on the other device</p>
+        <h3 className="text-xl font-black text-white tracking-widest uppercase">{title}</h3>
+        <p className="text-slate-400 text-sm font-medium">{hint}</p>
       </div>
 
       <style>{`
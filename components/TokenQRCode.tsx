@@ -0,0 +1,35 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import QRCodeDisplay from './QRCodeDisplay';
+import { manualTokenFrames } from '../services/sdpCodec';
+
+// Slow enough for a phone camera to lock onto each frame
+const FRAME_INTERVAL_MS = 600;
+
+interface TokenQRCodeProps {
+  token: string;
+  size?: number;
+}
+
+// A manual pairing token as one QR code, or as frames shown in a loop when it needs several
+const TokenQRCode: React.FC<TokenQRCodeProps> = ({ token, size = 220 }) => {
+  const frames = useMemo(() => manualTokenFrames(token), [token]);
+  const [index, setIndex] = useState(0);
+
+  useEffect(() => {
+    setIndex(0);
+    if (frames.length < 2) return;
+    const timer = setInterval(() => setIndex(i => (i + 1) % frames.length), FRAME_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [frames]);
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <QRCodeDisplay text={frames[index % frames.length]} size={size} />
+      {frames.length > 1 && (
+        <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Frame {index % frames.length + 1} of {frames.length}</p>
+      )}
+    </div>
+  );
+};
+
+export default TokenQRCode;
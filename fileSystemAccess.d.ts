@@ -0,0 +1,21 @@
+// Parts of the File System Access API that TypeScript's DOM library leaves out. Chromium-only,
+// so everything is optional and has to be checked for before use.
+import 'react';
+
+declare global {
+  interface Window {
+    showDirectoryPicker?: (options?: { mode?: 'read' | 'readwrite' }) => Promise<FileSystemDirectoryHandle>;
+    showSaveFilePicker?: (options?: { suggestedName?: string }) => Promise<FileSystemFileHandle>;
+  }
+
+  interface DataTransferItem {
+    getAsFileSystemHandle?: () => Promise<FileSystemHandle | null>;
+  }
+}
+
+declare module 'react' {
+  // Non-standard, but supported by every current browser for picking a whole folder
+  interface InputHTMLAttributes<T> {
+    webkitdirectory?: string;
+  }
+}
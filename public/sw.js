@@ -0,0 +1,48 @@
+// Receives items shared to Orbit from other apps (Web Share Target) and parks them in
+// the Cache API until the app has a peer to send them to. Read back by services/shareQueue.ts.
+const SHARE_CACHE = 'orbit-share-queue';
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+// Both resolved against where the worker is registered, so a deployment under a sub-path works too
+const SHARE_TARGET_URL = new URL('share-target', self.registration.scope).href;
+const SHARED_URL = new URL('./?shared=1', self.registration.scope).href;
+
+self.addEventListener('fetch', (event) => {
+  const url = new URL(event.request.url);
+  if (event.request.method !== 'POST' || url.origin + url.pathname !== SHARE_TARGET_URL) return;
+  event.respondWith(queueShare(event.request));
+});
+
+const queueShare = async (request) => {
+  try {
+    const form = await request.formData();
+    const files = form.getAll('files').filter(file => typeof file !== 'string');
+
+    const cache = await caches.open(SHARE_CACHE);
+    const queue = (body, headers) => cache.put(`/share-queue/${Date.now()}-${Math.random().toString(36).slice(2)}`, new Response(body, { headers }));
+
+    for (const file of files) {
+      await queue(file, {
+        'Content-Type': file.type || 'application/octet-stream',
+        'X-Orbit-Name': encodeURIComponent(file.name),
+        'X-Orbit-Last-Modified': String(file.lastModified)
+      });
+    }
+
+    // Shared text and links are sent as a TEXT item
+    const text = ['title', 'text', 'url'].map(key => form.get(key)).filter(Boolean).join('\n');
+    if (text) {
+      await queue(text, { 'Content-Type': 'text/plain;charset=utf-8', 'X-Orbit-Kind': 'text' });
+    }
+
+    // An already open window picks the new items up without a reload
+    const windows = await self.clients.matchAll({ type: 'window' });
+    windows.forEach(client => client.postMessage({ type: 'SHARE_QUEUED' }));
+  } catch (e) {
+    console.warn('Could not queue shared items', e);
+  }
+  return Response.redirect(SHARED_URL, 303);
+};
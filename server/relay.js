@@ -0,0 +1,83 @@
+import { createServer } from 'http';
+import { createHmac } from 'crypto';
+import { WebSocketServer } from 'ws';
+
+// Minimal signaling relay: every socket connected to /<ROOM_ID> receives the
+// messages posted by the other sockets of that room. Nothing is stored.
+const PORT = Number(process.env.RELAY_PORT || 8787);
+const MAX_PEERS_PER_ROOM = 8;
+
+// Shared with a coturn-style TURN server (use-auth-secret / static-auth-secret)
+const TURN_SECRET = process.env.TURN_SECRET;
+const TURN_URLS = (process.env.TURN_URLS || '').split(/[\s,]+/).filter(Boolean);
+const TURN_TTL = Number(process.env.TURN_TTL || 3600);
+
+const rooms = new Map();
+
+// Time-limited TURN credentials in the TURN REST API format: the username carries the expiry
+// and the password is an HMAC of it, so the TURN server can check them without a user database
+const turnCredentials = () => {
+  const username = `${Math.floor(Date.now() / 1000) + TURN_TTL}:orbit`;
+  const password = createHmac('sha1', TURN_SECRET).update(username).digest('base64');
+  return { username, password, ttl: TURN_TTL, uris: TURN_URLS };
+};
+
+const server = createServer((request, response) => {
+  const path = (request.url || '/').split('?')[0];
+  if (!TURN_SECRET || path !== '/turn-credentials' || request.method !== 'GET') {
+    response.writeHead(404).end();
+    return;
+  }
+  response.writeHead(200, {
+    'Content-Type': 'application/json',
+    'Cache-Control': 'no-store',
+    'Access-Control-Allow-Origin': '*'
+  });
+  response.end(JSON.stringify(turnCredentials()));
+});
+
+const wss = new WebSocketServer({ server, maxPayload: 64 * 1024 });
+
+const broadcast = (roomId, sender, payload) => {
+  const peers = rooms.get(roomId);
+  if (!peers) return;
+  for (const peer of peers) {
+    if (peer !== sender && peer.readyState === peer.OPEN) {
+      peer.send(payload);
+    }
+  }
+};
+
+wss.on('connection', (socket, request) => {
+  const roomId = decodeURIComponent((request.url || '/').slice(1).split('?')[0]).toUpperCase();
+  if (!/^[A-Z0-9]{4,32}$/.test(roomId)) {
+    socket.close(1008, 'Invalid room');
+    return;
+  }
+
+  const peers = rooms.get(roomId) || new Set();
+  if (peers.size >= MAX_PEERS_PER_ROOM) {
+    socket.close(1008, 'Room full');
+    return;
+  }
+  peers.add(socket);
+  rooms.set(roomId, peers);
+
+  // Lets whoever was already waiting (re)start the handshake with the newcomer
+  broadcast(roomId, socket, JSON.stringify({ type: 'PEER_JOINED' }));
+
+  socket.on('message', (data, isBinary) => {
+    if (isBinary) return;
+    broadcast(roomId, socket, data.toString());
+  });
+
+  socket.on('close', () => {
+    peers.delete(socket);
+    if (peers.size === 0) rooms.delete(roomId);
+  });
+});
+
+server.listen(PORT, () => {
+  console.log(`Orbit signaling relay listening on ws://0.0.0.0:${PORT}`);
+  if (TURN_SECRET) console.log(`TURN credentials at http://0.0.0.0:${PORT}/turn-credentials`);
+});
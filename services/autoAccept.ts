@@ -0,0 +1,45 @@
+import { IncomingOffer } from './transferReceiver';
+
+// Offers matching these rules skip the Accept/Decline prompt
+export interface AutoAcceptRules {
+  enabled: boolean;
+  // Bytes; 0 means no limit
+  maxSize: number;
+  // Exact types or wildcards like "image/*"; empty means any type
+  mimeTypes: string[];
+}
+
+const STORAGE_KEY = 'orbit_auto_accept';
+
+export const DEFAULT_AUTO_ACCEPT_RULES: AutoAcceptRules = {
+  enabled: false,
+  maxSize: 25 * 1024 * 1024,
+  mimeTypes: ['image/*']
+};
+
+export const loadAutoAcceptRules = (): AutoAcceptRules => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_AUTO_ACCEPT_RULES, ...JSON.parse(saved) } : DEFAULT_AUTO_ACCEPT_RULES;
+  } catch (e) {
+    return DEFAULT_AUTO_ACCEPT_RULES;
+  }
+};
+
+export const saveAutoAcceptRules = (rules: AutoAcceptRules) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(rules));
+};
+
+const matchesMimeType = (type: string, pattern: string) => {
+  const [family, subtype] = pattern.toLowerCase().split('/');
+  const [typeFamily, typeSubtype] = (type || '').toLowerCase().split('/');
+  return family === typeFamily && (subtype === '*' || subtype === typeSubtype);
+};
+
+// A peer the user chose to trust for this session gets everything
+export const shouldAutoAccept = (rules: AutoAcceptRules, offer: IncomingOffer, trustedPeer: boolean) => {
+  if (trustedPeer) return true;
+  if (!rules.enabled) return false;
+  if (rules.maxSize > 0 && offer.size > rules.maxSize) return false;
+  return rules.mimeTypes.length === 0 || rules.mimeTypes.some(pattern => matchesMimeType(offer.type, pattern));
+};
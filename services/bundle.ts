@@ -0,0 +1,72 @@
+// A folder (or several dropped items) sent as one unit. Each file still travels as its
+// own transfer; the bundle manifest ties them together and carries the relative paths.
+
+export interface BundleItem {
+  path: string;
+  file: File;
+}
+
+// A file of a bundle being sent, with the transfer id it travels under
+export interface OutgoingBundleEntry extends BundleItem {
+  id: string;
+}
+
+// Entry of a BUNDLE_OFFER manifest
+export interface BundleFileInfo {
+  id: string;
+  path: string;
+  size: number;
+  type: string;
+}
+
+// Rejects anything that could escape the destination directory; returns the normalized path
+export const sanitizeRelativePath = (path: unknown): string | null => {
+  if (typeof path !== 'string') return null;
+  const segments = path.replace(/\\/g, '/').split('/');
+  if (segments.some(s => s === '' || s === '.' || s === '..' || /[\u0000-\u001f]/.test(s))) return null;
+  return segments.join('/');
+};
+
+// Creates intermediate directories as needed
+export const getFileHandleAt = async (root: FileSystemDirectoryHandle, path: string): Promise<FileSystemFileHandle> => {
+  const segments = path.split('/');
+  let dir = root;
+  for (const segment of segments.slice(0, -1)) {
+    dir = await dir.getDirectoryHandle(segment, { create: true });
+  }
+  return dir.getFileHandle(segments[segments.length - 1], { create: true });
+};
+
+// Files from <input webkitdirectory>, which carry their path in webkitRelativePath
+export const itemsFromFileList = (files: FileList): BundleItem[] =>
+  Array.from(files).map(file => ({ path: file.webkitRelativePath || file.name, file }));
+
+const collectDirectory = async (dir: FileSystemDirectoryHandle, prefix: string, items: BundleItem[]) => {
+  for await (const entry of dir.values()) {
+    const path = `${prefix}/${entry.name}`;
+    if (entry.kind === 'directory') {
+      await collectDirectory(entry as FileSystemDirectoryHandle, path, items);
+    } else {
+      items.push({ path, file: await (entry as FileSystemFileHandle).getFile() });
+    }
+  }
+};
+
+// Walks dropped handles (from DataTransferItem.getAsFileSystemHandle) into a flat list
+export const itemsFromHandles = async (handles: FileSystemHandle[]): Promise<BundleItem[]> => {
+  const items: BundleItem[] = [];
+  for (const handle of handles) {
+    if (handle.kind === 'directory') {
+      await collectDirectory(handle as FileSystemDirectoryHandle, handle.name, items);
+    } else {
+      items.push({ path: handle.name, file: await (handle as FileSystemFileHandle).getFile() });
+    }
+  }
+  return items;
+};
+
+// Name shown on the bundle card: the top-level folder if there is just one
+export const bundleName = (items: BundleItem[]) => {
+  const roots = new Set(items.map(item => item.path.split('/')[0]));
+  return roots.size === 1 && items.some(item => item.path.includes('/')) ? [...roots][0] : `${items.length} ${items.length === 1 ? 'item' : 'items'}`;
+};
@@ -0,0 +1,73 @@
+// How long each throughput sample runs before the chunk size is re-evaluated
+const SAMPLE_MS = 250;
+// Aim for chunks that take about this long to go out at the measured rate
+const TARGET_CHUNK_MS = 4;
+
+// Picks the chunk size from the measured send rate: small chunks keep slow links responsive
+// (and progress smooth), large ones cut per-message overhead on fast LANs.
+export class AdaptiveChunkSizer {
+  private size: number;
+  private windowStart = performance.now();
+  private windowBytes = 0;
+
+  constructor(private min: number, private max: number) {
+    this.size = Math.min(min, max);
+  }
+
+  get chunkSize() {
+    return this.size;
+  }
+
+  // Called for every chunk handed to a channel
+  record(bytes: number) {
+    this.windowBytes += bytes;
+    const elapsed = performance.now() - this.windowStart;
+    if (elapsed < SAMPLE_MS) return;
+
+    const target = (this.windowBytes / elapsed) * TARGET_CHUNK_MS;
+    let size = this.min;
+    while (size * 2 <= target && size * 2 <= this.max) size *= 2;
+    this.size = Math.min(size, this.max);
+    this.windowStart = performance.now();
+    this.windowBytes = 0;
+  }
+}
+
+// Re-cuts a Blob's stream into chunks of the size asked for at each step. The stream
+// reads ahead on its own, so the next chunk is usually ready by the time it's needed.
+export async function* readChunks(blob: Blob, chunkSize: () => number): AsyncGenerator<Uint8Array> {
+  const reader = blob.stream().getReader();
+  const parts: Uint8Array[] = [];
+  let buffered = 0;
+
+  const take = (size: number) => {
+    const chunk = new Uint8Array(size);
+    let filled = 0;
+    while (filled < size) {
+      const part = parts[0];
+      const used = Math.min(part.byteLength, size - filled);
+      chunk.set(part.subarray(0, used), filled);
+      filled += used;
+      if (used === part.byteLength) parts.shift();
+      else parts[0] = part.subarray(used);
+    }
+    buffered -= size;
+    return chunk;
+  };
+
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (value) {
+        parts.push(value);
+        buffered += value.byteLength;
+      }
+      while (buffered > 0 && (buffered >= chunkSize() || done)) {
+        yield take(Math.min(chunkSize(), buffered));
+      }
+      if (done) return;
+    }
+  } finally {
+    reader.cancel().catch(() => {});
+  }
+}
@@ -0,0 +1,116 @@
+import { FrameFlag } from './frameCodec';
+
+// Chunk encodings both ends may use, best first. Each chunk is compressed on its own and
+// its frame is flagged with the encoding, so offsets, digests, repairs and resumes all keep
+// working on the original bytes.
+export type Encoding = 'deflate-raw' | 'gzip';
+
+const ENCODINGS: Encoding[] = ['deflate-raw', 'gzip'];
+
+export const ENCODING_FLAGS: Record<Encoding, FrameFlag> = {
+  'deflate-raw': FrameFlag.DEFLATE_RAW,
+  gzip: FrameFlag.GZIP
+};
+
+export const ENCODING_FLAG_MASK = FrameFlag.DEFLATE_RAW | FrameFlag.GZIP;
+
+export const frameEncoding = (flags: number): Encoding | undefined =>
+  ENCODINGS.find(encoding => flags & ENCODING_FLAGS[encoding]);
+
+// Not worth a second look below this size
+const MIN_COMPRESSIBLE_SIZE = 4 * 1024;
+// Every chunk starts deflate over with an empty window, so small ones leave most repeats
+// unfound; compressed transfers read at least this much per chunk
+export const MIN_COMPRESSED_CHUNK = 128 * 1024;
+const SAMPLE_SIZE = 64 * 1024;
+// Shannon entropy in bits per byte; compressed or encrypted data sits close to 8
+const MAX_SAMPLE_ENTROPY = 7.2;
+
+// Types that are compressed already, with the odd uncompressed image or audio format let through
+const COMPRESSED_TYPES = /^(image\/(?!svg|bmp|x-ms-bmp|tiff|x-icon)|video\/|audio\/(?!wav|x-wav|aiff))|zip|gzip|x-7z|x-rar|x-bzip|x-xz|zstd|brotli|pdf|epub|font\/woff|officedocument|opendocument|x-apple-diskimage|android\.package/;
+const COMPRESSED_EXTENSIONS = /\.(zip|gz|tgz|bz2|xz|7z|rar|zst|br|lz4|jpe?g|png|gif|webp|avif|heic|mp4|mov|mkv|webm|mp3|aac|m4a|ogg|opus|flac|pdf|docx|xlsx|pptx|odt|ods|epub|apk|ipa|dmg|woff2?)$/i;
+
+const canUse = (encoding: Encoding) => {
+  try {
+    new CompressionStream(encoding);
+    new DecompressionStream(encoding);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+let supported: Encoding[] | null = null;
+
+// What this browser can decode; sent to senders so they only use one of these
+export const supportedEncodings = (): Encoding[] => {
+  if (!supported) supported = typeof CompressionStream === 'undefined' ? [] : ENCODINGS.filter(canUse);
+  return supported;
+};
+
+export const sampleEntropy = (bytes: Uint8Array) => {
+  if (bytes.length === 0) return 0;
+  const counts = new Uint32Array(256);
+  for (const byte of bytes) counts[byte]++;
+  let entropy = 0;
+  for (const count of counts) {
+    if (count === 0) continue;
+    const p = count / bytes.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+};
+
+// First encoding both ends support, or none when the file is small, of a compressed format
+// or looks random from a sample of its middle
+export const chooseEncoding = async (file: File, accepted: unknown): Promise<Encoding | undefined> => {
+  const encoding = supportedEncodings().find(e => Array.isArray(accepted) && accepted.includes(e));
+  if (!encoding || file.size < MIN_COMPRESSIBLE_SIZE) return undefined;
+  if (COMPRESSED_TYPES.test(file.type) || COMPRESSED_EXTENSIONS.test(file.name)) return undefined;
+  const start = Math.max(0, Math.floor(file.size / 2) - SAMPLE_SIZE / 2);
+  try {
+    const sample = new Uint8Array(await file.slice(start, start + SAMPLE_SIZE).arrayBuffer());
+    return sampleEntropy(sample) <= MAX_SAMPLE_ENTROPY ? encoding : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// Frames never carry more than this once decoded; the sender's largest chunk is well below it
+const MAX_DECODED_CHUNK = 1024 * 1024;
+
+// Undefined when compressing doesn't make the chunk smaller, or fails; it is then sent as it is
+export const compressChunk = async (data: Uint8Array, encoding: Encoding): Promise<Uint8Array | undefined> => {
+  try {
+    const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new CompressionStream(encoding));
+    const packed = new Uint8Array(await new Response(stream).arrayBuffer());
+    return packed.byteLength < data.byteLength ? packed : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// Stops reading once the output passes what the frame may hold, so a hostile frame can't inflate without bound
+export const decompressChunk = async (data: ArrayBuffer, encoding: Encoding, maxBytes: number): Promise<ArrayBuffer> => {
+  const limit = Math.min(maxBytes, MAX_DECODED_CHUNK);
+  const reader = new Blob([data]).stream().pipeThrough(new DecompressionStream(encoding)).getReader();
+  const parts: Uint8Array[] = [];
+  let length = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    length += value.byteLength;
+    if (length > limit) {
+      reader.cancel().catch(() => {});
+      throw new Error('Compressed chunk expands past its limit');
+    }
+    parts.push(value);
+  }
+  const decoded = new Uint8Array(length);
+  let offset = 0;
+  for (const part of parts) {
+    decoded.set(part, offset);
+    offset += part.byteLength;
+  }
+  return decoded.buffer;
+};
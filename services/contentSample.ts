@@ -0,0 +1,118 @@
+import { createThumbnail } from './thumbnail';
+
+// A bounded look inside a file, for an insight provider the user allowed to see content
+export type ContentSample =
+  | { kind: 'text'; text: string }
+  | { kind: 'image'; mimeType: string; data: string };
+
+export const TEXT_SAMPLE_BYTES = 8 * 1024;
+const IMAGE_SAMPLE_SIZE = 256;
+// Only the start of a PDF is searched for text; later pages are left out
+const PDF_SCAN_BYTES = 4 * 1024 * 1024;
+const MAX_STREAM_BYTES = 1024 * 1024;
+
+const TEXT_TYPES = /^text\/|json|xml|javascript|x-sh|x-yaml|csv|calendar|vcard/;
+const TEXT_EXTENSIONS = /\.(txt|md|csv|tsv|json|log|xml|ya?ml|ini|conf|toml|html?|css|js|jsx|ts|tsx|py|java|kt|swift|c|h|cpp|go|rs|rb|sh|sql|ics|vcf|srt)$/i;
+
+// First bytes of a text file, decoded; undefined for anything that isn't text
+export const readTextSample = async (blob: Blob, name: string, type: string): Promise<string | undefined> => {
+  if (!TEXT_TYPES.test(type) && !TEXT_EXTENSIONS.test(name)) return undefined;
+  try {
+    const bytes = new Uint8Array(await blob.slice(0, TEXT_SAMPLE_BYTES).arrayBuffer());
+    if (bytes.includes(0)) return undefined;
+    // A multi-byte character cut off at the end decodes to a replacement character
+    return new TextDecoder().decode(bytes).replace(/\uFFFD$/, '');
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const inflate = async (data: Uint8Array): Promise<Uint8Array | undefined> => {
+  try {
+    const reader = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream('deflate')).getReader();
+    const parts: Uint8Array[] = [];
+    let length = 0;
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      parts.push(value);
+      length += value.byteLength;
+      if (length > MAX_STREAM_BYTES) {
+        reader.cancel().catch(() => {});
+        break;
+      }
+    }
+    const joined = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+      joined.set(part, offset);
+      offset += part.byteLength;
+    }
+    return joined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+const PDF_ESCAPES: Record<string, string> = { n: '\n', r: '\r', t: '\t', b: '', f: '' };
+
+const decodePdfString = (literal: string) => literal.slice(1, -1).replace(/\\([0-7]{1,3}|[\s\S])/g, (_, escape: string) => {
+  if (/^[0-7]/.test(escape)) return String.fromCharCode(parseInt(escape, 8));
+  if (escape === '\r' || escape === '\n') return '';
+  return PDF_ESCAPES[escape] ?? escape;
+});
+
+// Literal strings shown between BT and ET, with a line break wherever the text moves down
+const textOperators = (content: string) => {
+  let text = '';
+  for (const block of content.match(/\bBT\b[\s\S]*?\bET\b/g) || []) {
+    for (const token of block.match(/\((?:\\[\s\S]|[^\\)])*\)|\bT[dD*](?!\w)|'/g) || []) {
+      text += token.startsWith('(') ? decodePdfString(token) : '\n';
+    }
+    text += '\n';
+  }
+  return text;
+};
+
+// Text drawn with plain fonts in the page streams near the start of the file. PDFs that embed
+// their fonts with custom encodings come out as gibberish and yield nothing.
+export const extractPdfText = async (blob: Blob): Promise<string | undefined> => {
+  try {
+    const bytes = new Uint8Array(await blob.slice(0, PDF_SCAN_BYTES).arrayBuffer());
+    // One character per byte, so string offsets are byte offsets
+    const raw = new TextDecoder('latin1').decode(bytes);
+    const streams = /<<((?:(?!>>\s*stream)[\s\S]){0,2000})>>\s*stream\r?\n/g;
+    let text = '';
+    for (let match = streams.exec(raw); match && text.length < TEXT_SAMPLE_BYTES; match = streams.exec(raw)) {
+      const dictionary = match[1];
+      const start = match.index + match[0].length;
+      const end = raw.indexOf('endstream', start);
+      if (end < 0) break;
+      streams.lastIndex = end;
+      if (/\/Subtype\s*\/Image|\/Type\s*\/(XObject|Font|XRef|ObjStm)|\/Length1/.test(dictionary)) continue;
+      const filter = /\/Filter\s*\/(\w+)/.exec(dictionary)?.[1];
+      if (filter && filter !== 'FlateDecode') continue;
+      const data = filter ? await inflate(bytes.subarray(start, end)) : bytes.subarray(start, end);
+      if (data) text += textOperators(new TextDecoder('latin1').decode(data));
+    }
+    const cleaned = text.replace(/[^\S\n]+/g, ' ').replace(/\s*\n\s*/g, '\n').trim().slice(0, TEXT_SAMPLE_BYTES);
+    const letters = cleaned.replace(/[^A-Za-z\u00C0-\u024F]/g, '').length;
+    return cleaned && letters >= cleaned.replace(/\s/g, '').length / 2 ? cleaned : undefined;
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// The start of a text file, a downscaled picture, or the readable text of a PDF
+export const sampleContent = async (blob: Blob, name: string, type: string): Promise<ContentSample | undefined> => {
+  if (type.startsWith('image/')) {
+    // Received blobs don't always carry their type, which decoding goes by
+    const thumbnail = await createThumbnail(blob.type ? blob : blob.slice(0, blob.size, type), IMAGE_SAMPLE_SIZE);
+    const match = thumbnail && /^data:([^;]+);base64,(.*)$/.exec(thumbnail);
+    return match ? { kind: 'image', mimeType: match[1], data: match[2] } : undefined;
+  }
+  const text = type === 'application/pdf' || /\.pdf$/i.test(name)
+    ? await extractPdfText(blob)
+    : await readTextSample(blob, name, type);
+  return text ? { kind: 'text', text } : undefined;
+};
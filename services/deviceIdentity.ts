@@ -0,0 +1,193 @@
+import { STORES, dbGet, dbPut } from './db';
+import { bytesEqual, fromBase64, hkdf, hmacSha256, toBase64, utf8 } from './pairingCrypto';
+import { sha256Hex } from './sha256';
+import { DeviceInfo, FormFactor, Platform } from '../types';
+
+// This install, as other devices remember it. The private key never leaves IndexedDB:
+// it is a non-extractable CryptoKey, stored by structured clone.
+export interface DeviceIdentity {
+  id: 'self';
+  fingerprint: string;
+  name: string;
+  // Raw P-256 public key; absent when the identity was created without WebCrypto (insecure context)
+  publicKey?: string;
+  privateKey?: CryptoKey;
+  createdAt: number;
+}
+
+// The device at the other end of a link, as it introduced itself; `id` is its fingerprint
+export interface PeerDevice extends DeviceInfo {
+  publicKey?: string;
+  // Proved it holds the private key behind the fingerprint; only verified devices can be trusted
+  verified: boolean;
+}
+
+// Room a pair of trusted devices meets in, derived on both ends from their keys
+export interface TrustedRoom {
+  roomId: string;
+  secret: string;
+}
+
+const ECDH = { name: 'ECDH', namedCurve: 'P-256' } as const;
+const MAX_NAME_LENGTH = 40;
+const ROOM_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+const PLATFORMS: Platform[] = ['macos', 'windows', 'linux', 'chromeos', 'ios', 'android', 'unknown'];
+const FORM_FACTORS: FormFactor[] = ['desktop', 'phone', 'tablet'];
+
+export const APP_VERSION = process.env.APP_VERSION || 'dev';
+
+const supportsWebCrypto = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+const fingerprintOf = (publicKey: Uint8Array) => sha256Hex(publicKey).slice(0, 32);
+
+// Grouped for reading out loud when comparing two screens
+export const formatFingerprint = (fingerprint: string) => fingerprint.toUpperCase().match(/.{1,4}/g)!.slice(0, 4).join(' ');
+
+export const cleanDeviceName = (name: string) => name.replace(/\s+/g, ' ').trim().slice(0, MAX_NAME_LENGTH);
+
+// iPadOS reports itself as a Mac, so touch support is what tells them apart
+export const detectPlatform = (): { platform: Platform; formFactor: FormFactor } => {
+  const ua = navigator.userAgent;
+  if (/iPhone|iPod/i.test(ua)) return { platform: 'ios', formFactor: 'phone' };
+  if (/iPad/i.test(ua) || (/Macintosh/i.test(ua) && navigator.maxTouchPoints > 1)) return { platform: 'ios', formFactor: 'tablet' };
+  if (/Android/i.test(ua)) return { platform: 'android', formFactor: /Mobile/i.test(ua) ? 'phone' : 'tablet' };
+  if (/CrOS/i.test(ua)) return { platform: 'chromeos', formFactor: 'desktop' };
+  if (/Mac/i.test(ua)) return { platform: 'macos', formFactor: 'desktop' };
+  if (/Windows/i.test(ua)) return { platform: 'windows', formFactor: 'desktop' };
+  if (/Linux/i.test(ua)) return { platform: 'linux', formFactor: 'desktop' };
+  return { platform: 'unknown', formFactor: 'desktop' };
+};
+
+const DEFAULT_NAMES: Record<Platform, string> = {
+  macos: 'Mac',
+  windows: 'Windows PC',
+  linux: 'Linux PC',
+  chromeos: 'Chromebook',
+  ios: 'iPhone',
+  android: 'Android phone',
+  unknown: 'Browser'
+};
+
+const defaultDeviceName = () => {
+  const { platform, formFactor } = detectPlatform();
+  if (formFactor === 'tablet') return platform === 'ios' ? 'iPad' : 'Android tablet';
+  return DEFAULT_NAMES[platform];
+};
+
+// What this device tells peers about itself; the platform is detected afresh on every start.
+// Until the identity has loaded (or without IndexedDB) it is labelled but not recognisable.
+export const localDeviceInfo = (identity?: DeviceIdentity | null): DeviceInfo => ({
+  id: identity?.fingerprint || 'local',
+  name: identity?.name || defaultDeviceName(),
+  ...detectPlatform(),
+  appVersion: APP_VERSION
+});
+
+// Stand-in until a peer has introduced itself, e.g. for a transfer restored after a reload
+export const unknownDevice = (peerId: string, name: string): DeviceInfo => ({
+  id: `peer:${peerId}`,
+  name,
+  platform: 'unknown',
+  formFactor: 'desktop',
+  appVersion: ''
+});
+
+const createIdentity = async (): Promise<DeviceIdentity> => {
+  const base = { id: 'self' as const, name: defaultDeviceName(), createdAt: Date.now() };
+  if (supportsWebCrypto()) {
+    try {
+      const keyPair = await crypto.subtle.generateKey(ECDH, false, ['deriveBits']);
+      const publicKey = new Uint8Array(await crypto.subtle.exportKey('raw', keyPair.publicKey));
+      return { ...base, fingerprint: fingerprintOf(publicKey), publicKey: toBase64(publicKey), privateKey: keyPair.privateKey };
+    } catch (e) {
+      console.warn('Could not create a device key, falling back to an unverifiable identity:', e);
+    }
+  }
+  return { ...base, fingerprint: fingerprintOf(crypto.getRandomValues(new Uint8Array(32))) };
+};
+
+let identityPromise: Promise<DeviceIdentity> | null = null;
+
+// Created on first use and kept for the lifetime of the install
+export const loadDeviceIdentity = (): Promise<DeviceIdentity> => {
+  if (!identityPromise) {
+    identityPromise = (async () => {
+      const saved = await dbGet<DeviceIdentity>(STORES.DEVICE_IDENTITY, 'self');
+      if (saved) return saved;
+      const identity = await createIdentity();
+      await dbPut(STORES.DEVICE_IDENTITY, identity);
+      return identity;
+    })();
+    identityPromise.catch(() => { identityPromise = null; });
+  }
+  return identityPromise;
+};
+
+export const renameDevice = async (name: string): Promise<DeviceIdentity> => {
+  const cleaned = cleanDeviceName(name);
+  const identity = await loadDeviceIdentity();
+  if (!cleaned || cleaned === identity.name) return identity;
+  const renamed = { ...identity, name: cleaned };
+  await dbPut(STORES.DEVICE_IDENTITY, renamed);
+  identityPromise = Promise.resolve(renamed);
+  return renamed;
+};
+
+// Static ECDH between the two device keys: only the real owners of both fingerprints get this
+const staticSecret = async (identity: DeviceIdentity, peerPublicKey: string) => {
+  const peerKey = await crypto.subtle.importKey('raw', fromBase64(peerPublicKey), ECDH, false, []);
+  return new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, identity.privateKey!, 256));
+};
+
+// Sent once the secure channel is up; the proof follows when the peer's hello arrives
+export const deviceHello = (identity: DeviceIdentity) => ({
+  type: 'HELLO',
+  device: localDeviceInfo(identity),
+  publicKey: identity.publicKey
+});
+
+// Fingerprints of keyed devices are recomputed rather than taken on the peer's word, and
+// anything this version doesn't know about is read as unknown
+export const peerFromHello = (hello: any): PeerDevice | null => {
+  const device = hello.device;
+  if (!device || typeof device !== 'object') return null;
+  const info = {
+    name: (typeof device.name === 'string' && cleanDeviceName(device.name)) || 'Unnamed device',
+    platform: PLATFORMS.includes(device.platform) ? device.platform : 'unknown',
+    formFactor: FORM_FACTORS.includes(device.formFactor) ? device.formFactor : 'desktop',
+    appVersion: typeof device.appVersion === 'string' ? device.appVersion.slice(0, 32) : '',
+    verified: false
+  };
+  if (typeof hello.publicKey === 'string') {
+    return { ...info, id: fingerprintOf(fromBase64(hello.publicKey)), publicKey: hello.publicKey };
+  }
+  if (typeof device.id !== 'string' || !/^[0-9a-f]{32}$/.test(device.id)) return null;
+  return { ...info, id: device.id };
+};
+
+export const canVerify = (identity: DeviceIdentity, peer: PeerDevice) => !!(identity.privateKey && peer.publicKey);
+
+// MAC over the secure session's channel binding, so a proof can't be replayed on another link
+export const deviceProof = async (identity: DeviceIdentity, peer: PeerDevice, binding: Uint8Array, isHost: boolean) => {
+  const key = hkdf(await staticSecret(identity, peer.publicKey!), binding, utf8('orbit-device-proof-v1'), 32);
+  return toBase64(hmacSha256(key, utf8(isHost ? 'host' : 'guest')));
+};
+
+export const verifyDeviceProof = async (identity: DeviceIdentity, peer: PeerDevice, binding: Uint8Array, isHost: boolean, mac: unknown) => {
+  if (typeof mac !== 'string') return false;
+  const expected = await deviceProof(identity, peer, binding, !isHost);
+  return bytesEqual(fromBase64(expected), fromBase64(mac));
+};
+
+// Both ends derive the same code and secret, so reconnecting needs no code to be shown or typed
+export const trustedRoom = async (identity: DeviceIdentity, peerPublicKey: string): Promise<TrustedRoom> => {
+  const peerFingerprint = fingerprintOf(fromBase64(peerPublicKey));
+  const info = utf8([identity.fingerprint, peerFingerprint].sort().join('|'));
+  const okm = hkdf(await staticSecret(identity, peerPublicKey), utf8('orbit-trusted-room-v1'), info, 18);
+  const roomId = Array.from(okm.slice(0, 6), byte => ROOM_ALPHABET[byte % ROOM_ALPHABET.length]).join('');
+  const secret = toBase64(okm.slice(6)).replace(/\+/g, '-').replace(/\//g, '_');
+  return { roomId, secret };
+};
+
+// The pair agrees on who hosts their room without talking first
+export const hostsTrustedRoom = (identity: DeviceIdentity, peerFingerprint: string) => identity.fingerprint < peerFingerprint;
@@ -0,0 +1,69 @@
+import { FileChunk } from '../types';
+
+// Binary frame layout (big-endian):
+//   0  u8   version
+//   1  u8   flags (FrameFlag bits)
+//   2  u8   transfer ID length in bytes (n)
+//   3  u8   reserved
+//   4  u32  unused, written as zero (offsets alone order frames, since chunk sizes vary)
+//   8  u64  byte offset of the payload within the file
+//  16  n    transfer ID (UTF-8)
+//  16+n     payload
+export const FRAME_VERSION = 1;
+const HEADER_SIZE = 16;
+
+export enum FrameFlag {
+  NONE = 0,
+  // Last chunk of the transfer
+  FINAL = 1 << 0,
+  // Re-sent bytes for a range that failed verification
+  REPAIR = 1 << 1,
+  // Payload is compressed; the offset still counts original bytes
+  DEFLATE_RAW = 1 << 2,
+  GZIP = 1 << 3
+}
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const encodeFrame = (chunk: FileChunk): ArrayBuffer => {
+  const id = encoder.encode(chunk.fileId);
+  if (id.byteLength > 255) {
+    throw new Error('Transfer ID too long for frame header');
+  }
+
+  const frame = new Uint8Array(HEADER_SIZE + id.byteLength + chunk.data.byteLength);
+  const view = new DataView(frame.buffer);
+  view.setUint8(0, FRAME_VERSION);
+  view.setUint8(1, chunk.flags);
+  view.setUint8(2, id.byteLength);
+  view.setBigUint64(8, BigInt(chunk.offset));
+  frame.set(id, HEADER_SIZE);
+  frame.set(new Uint8Array(chunk.data), HEADER_SIZE + id.byteLength);
+  return frame.buffer;
+};
+
+export const decodeFrame = (buffer: ArrayBuffer): FileChunk => {
+  if (buffer.byteLength < HEADER_SIZE) {
+    throw new Error('Truncated frame');
+  }
+
+  const view = new DataView(buffer);
+  const version = view.getUint8(0);
+  if (version !== FRAME_VERSION) {
+    throw new Error(`Unsupported frame version ${version}`);
+  }
+
+  const idLength = view.getUint8(2);
+  const payloadStart = HEADER_SIZE + idLength;
+  if (buffer.byteLength < payloadStart) {
+    throw new Error('Truncated frame');
+  }
+
+  return {
+    fileId: decoder.decode(new Uint8Array(buffer, HEADER_SIZE, idLength)),
+    offset: Number(view.getBigUint64(8)),
+    flags: view.getUint8(1),
+    data: buffer.slice(payloadStart)
+  };
+};
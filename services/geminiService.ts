@@ -1,24 +1,70 @@
 
-import { GoogleGenAI } from "@google/genai";
+import { GoogleGenAI, Part, Type } from "@google/genai";
+import type { InsightProvider } from "./insightProvider";
+import { FileInsight, InsightCategory } from "../types";
 
-// Initialize the GoogleGenAI client with the API key from environment variables.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const CATEGORIES: InsightCategory[] = ['image', 'video', 'audio', 'document', 'spreadsheet', 'presentation', 'archive', 'code', 'data', 'program', 'other'];
+const MAX_TAGS = 6;
+
+export const hasGeminiKey = () => !!process.env.API_KEY;
+
+let ai: GoogleGenAI | null = null;
+
+// Created on first use, so a build without a key never constructs a client
+const client = () => {
+  if (!ai) ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return ai;
+};
+
+const INSIGHT_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    category: { type: Type.STRING, enum: CATEGORIES },
+    summary: { type: Type.STRING },
+    tags: { type: Type.ARRAY, items: { type: Type.STRING } },
+    sensitive: { type: Type.BOOLEAN }
+  },
+  required: ['category', 'summary', 'tags', 'sensitive']
+};
+
+// The model's JSON, held to the shape and sizes the UI expects
+const toInsight = (text: string | undefined): FileInsight | undefined => {
+  if (!text) return undefined;
+  const raw = JSON.parse(text);
+  const summary = typeof raw.summary === 'string' ? raw.summary.trim().slice(0, 300) : '';
+  if (!summary) return undefined;
+  const tags: string[] = Array.isArray(raw.tags) ? raw.tags.filter((tag: unknown): tag is string => typeof tag === 'string') : [];
+  return {
+    category: CATEGORIES.includes(raw.category) ? raw.category : 'other',
+    summary,
+    tags: [...new Set(tags.map(tag => tag.trim().toLowerCase().slice(0, 32)).filter(Boolean))].slice(0, MAX_TAGS),
+    sensitive: raw.sensitive === true
+  };
+};
+
+// Sends the name, type and size, plus the content sample when there is one; errors are left to the caller
+export const geminiInsightProvider: InsightProvider = {
+  id: 'gemini',
+  remote: true,
+  describe: async ({ name, type, size, sample }) => {
+    const parts: Part[] = [{
+      text: `Classify this file: ${name} (${type || 'unknown type'}, ${Math.round(size / 1024)}KB). Give its category, a very short, professional 1-sentence summary of what it is or contains, up to ${MAX_TAGS} short lowercase tags, and whether it looks personal or confidential (IDs, finances, health, credentials).`
+    }];
+    if (sample?.kind === 'text') parts.push({ text: `The start of its content:\n${sample.text}` });
+    if (sample?.kind === 'image') parts.push({ inlineData: { mimeType: sample.mimeType, data: sample.data } });
 
-export const getFileInsight = async (fileName: string, fileType: string, fileSize: number): Promise<string> => {
-  try {
     // Generate content using the recommended model for basic text tasks.
-    const response = await ai.models.generateContent({
+    const response = await client().models.generateContent({
       model: 'gemini-3-flash-preview',
-      contents: `Provide a very short, professional 1-sentence description or categorization for this file: ${fileName} (${fileType}, ${Math.round(fileSize / 1024)}KB). If it's a known format, explain its common use.`,
+      contents: [{ role: 'user', parts }],
       config: {
         // Removed maxOutputTokens to prevent potential generation blocking issues.
         temperature: 0.7,
+        responseMimeType: 'application/json',
+        responseSchema: INSIGHT_SCHEMA
       },
     });
     // Use the .text property directly as it is a getter.
-    return response.text || "Standard file transfer.";
-  } catch (error) {
-    console.error("Gemini Error:", error);
-    return "File processed successfully.";
+    return toInsight(response.text);
   }
 };
@@ -0,0 +1,224 @@
+import { STORES, dbDelete, dbGet, dbGetAll, dbPut } from './db';
+import { DeviceInfo, HistoryItem, TransferDirection } from '../types';
+
+// How much of the log, and of the received files behind it, is kept
+export interface HistorySettings {
+  // Keep a copy of each received file so it can be downloaded again
+  keepFiles: boolean;
+  // Entries older than this are deleted; 0 keeps them forever
+  maxAgeDays: number;
+  // Bytes of kept files; the oldest copies go first. 0 means no limit
+  maxFileBytes: number;
+}
+
+export type HistoryKind = 'image' | 'video' | 'audio' | 'document' | 'archive' | 'text' | 'other';
+
+// Empty fields match everything
+export interface HistoryFilter {
+  query: string;
+  // DeviceInfo id of the other device: the sender of incoming items, a recipient of outgoing ones
+  deviceId: string;
+  kind: HistoryKind | '';
+  direction: TransferDirection | '';
+  // Local calendar days as yyyy-mm-dd, the way date inputs give them; both inclusive
+  from: string;
+  to: string;
+  // One of the tags the insight provider gave the entry
+  tag: string;
+}
+
+interface KeptFile {
+  id: string;
+  blob: Blob;
+  size: number;
+}
+
+const LEGACY_STORAGE_KEY = 'orbit_transfer_history';
+const SETTINGS_KEY = 'orbit_history_settings';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_HISTORY_SETTINGS: HistorySettings = {
+  keepFiles: false,
+  maxAgeDays: 0,
+  maxFileBytes: 1024 * 1024 * 1024
+};
+
+export const EMPTY_HISTORY_FILTER: HistoryFilter = { query: '', deviceId: '', kind: '', direction: '', from: '', to: '', tag: '' };
+
+export const loadHistorySettings = (): HistorySettings => {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    return saved ? { ...DEFAULT_HISTORY_SETTINGS, ...JSON.parse(saved) } : DEFAULT_HISTORY_SETTINGS;
+  } catch (e) {
+    return DEFAULT_HISTORY_SETTINGS;
+  }
+};
+
+export const saveHistorySettings = (settings: HistorySettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// Entries from before DeviceInfo only had a 'Mac' | 'Android' label guessed from the user agent
+const legacyDevice = (label: string): DeviceInfo => label === 'Android'
+  ? { id: 'legacy:android', name: 'Android', platform: 'android', formFactor: 'phone', appVersion: '' }
+  : { id: 'legacy:mac', name: 'Mac', platform: 'macos', formFactor: 'desktop', appVersion: '' };
+
+const migrateItem = (item: any): HistoryItem => {
+  if (typeof item.sender !== 'string') return item;
+  // The device labelled itself by the same guess, so its own label marks what it sent
+  const localLabel = /Android/i.test(navigator.userAgent) ? 'Android' : 'Mac';
+  const { device, ...rest } = item;
+  const legacy = legacyDevice(item.sender);
+  return {
+    ...rest,
+    sender: device ? { ...legacy, id: device.fingerprint, name: device.name } : legacy,
+    direction: item.sender === localLabel ? 'outgoing' : 'incoming'
+  };
+};
+
+// Insights used to be a single free-text line
+const upgradeInsight = (item: any): HistoryItem => {
+  if (typeof item.aiInsight !== 'string') return item;
+  const { aiInsight, ...rest } = item;
+  return { ...rest, insight: { category: 'other', summary: aiInsight, tags: [], sensitive: false } };
+};
+
+// The log used to live in localStorage, capped at 50 entries; moved over on first load
+const migrateLegacyHistory = async () => {
+  const saved = localStorage.getItem(LEGACY_STORAGE_KEY);
+  if (!saved) return;
+  const items: HistoryItem[] = JSON.parse(saved).map(migrateItem);
+  for (const item of items) await dbPut(STORES.HISTORY, item);
+  localStorage.removeItem(LEGACY_STORAGE_KEY);
+};
+
+// Newest first
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  try {
+    await migrateLegacyHistory();
+  } catch (e) {
+    console.warn('Could not migrate the old history', e);
+  }
+  return (await dbGetAll<HistoryItem>(STORES.HISTORY)).map(upgradeInsight).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Keeps the received file too when the settings allow it; returns the entry as stored
+export const saveHistoryItem = async (item: HistoryItem, file: Blob | undefined, settings: HistorySettings): Promise<HistoryItem> => {
+  const keep = !!file && settings.keepFiles && (!settings.maxFileBytes || file.size <= settings.maxFileBytes);
+  if (keep) await dbPut<KeptFile>(STORES.HISTORY_FILES, { id: item.id, blob: file!, size: file!.size });
+  const saved = keep ? { ...item, fileKept: true } : item;
+  await dbPut(STORES.HISTORY, saved);
+  return saved;
+};
+
+export const loadHistoryFile = async (id: string) => (await dbGet<KeptFile>(STORES.HISTORY_FILES, id))?.blob;
+
+export const deleteHistoryItem = async (id: string) => {
+  await dbDelete(STORES.HISTORY_FILES, id);
+  await dbDelete(STORES.HISTORY, id);
+};
+
+// Deletes entries past the age limit and kept files over the size budget; returns what's left
+export const applyRetention = async (settings: HistorySettings): Promise<HistoryItem[]> => {
+  const items = await loadHistory();
+  const files = new Map((await dbGetAll<KeptFile>(STORES.HISTORY_FILES)).map(file => [file.id, file.size]));
+  const cutoff = settings.maxAgeDays > 0 ? Date.now() - settings.maxAgeDays * DAY_MS : 0;
+  const remaining: HistoryItem[] = [];
+  let fileBytes = 0;
+
+  for (const item of items) {
+    if (item.timestamp < cutoff) {
+      await deleteHistoryItem(item.id);
+      continue;
+    }
+    const size = files.get(item.id);
+    if (size === undefined) {
+      remaining.push(item.fileKept ? { ...item, fileKept: undefined } : item);
+      continue;
+    }
+    fileBytes += size;
+    if (settings.keepFiles && (!settings.maxFileBytes || fileBytes <= settings.maxFileBytes)) {
+      remaining.push(item);
+      continue;
+    }
+    await dbDelete(STORES.HISTORY_FILES, item.id);
+    const trimmed = { ...item, fileKept: undefined };
+    await dbPut(STORES.HISTORY, trimmed);
+    remaining.push(trimmed);
+  }
+  return remaining;
+};
+
+export const historyKind = (item: HistoryItem): HistoryKind => {
+  if (item.text !== undefined) return 'text';
+  const type = item.type || '';
+  if (type.startsWith('image/')) return 'image';
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('audio/')) return 'audio';
+  if (/zip|x-tar|gzip|x-7z|x-rar/.test(type)) return 'archive';
+  if (type.startsWith('text/') || /pdf|msword|officedocument|opendocument|rtf|json/.test(type)) return 'document';
+  return 'other';
+};
+
+// The devices on the other end of an entry
+export const counterparts = (item: HistoryItem): DeviceInfo[] =>
+  item.direction === 'incoming' ? [item.sender] : item.recipients || [];
+
+// Everyone this device has exchanged items with, for the device filter
+export const historyDevices = (items: HistoryItem[]): DeviceInfo[] => {
+  const devices = new Map<string, DeviceInfo>();
+  items.forEach(item => counterparts(item).forEach(device => {
+    if (!devices.has(device.id)) devices.set(device.id, device);
+  }));
+  return [...devices.values()];
+};
+
+// Every tag in the log, most used first
+export const historyTags = (items: HistoryItem[]): string[] => {
+  const counts = new Map<string, number>();
+  items.forEach(item => item.insight?.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return [...counts.keys()].sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};
+
+export const filterHistory = (items: HistoryItem[], filter: HistoryFilter) => {
+  const query = filter.query.trim().toLowerCase();
+  const from = filter.from ? new Date(`${filter.from}T00:00:00`).getTime() : -Infinity;
+  const to = filter.to ? new Date(`${filter.to}T23:59:59.999`).getTime() : Infinity;
+  return items.filter(item =>
+    (!query || [item.name, item.text || '', item.insight?.summary || '', ...(item.insight?.tags || []), ...counterparts(item).map(device => device.name)].some(field => field.toLowerCase().includes(query))) &&
+    (!filter.deviceId || counterparts(item).some(device => device.id === filter.deviceId)) &&
+    (!filter.kind || historyKind(item) === filter.kind) &&
+    (!filter.direction || item.direction === filter.direction) &&
+    (!filter.tag || !!item.insight?.tags.includes(filter.tag)) &&
+    item.timestamp >= from && item.timestamp <= to
+  );
+};
+
+const CSV_COLUMNS = ['time', 'direction', 'name', 'type', 'size', 'from', 'to', 'average_rate', 'path', 'text', 'category', 'summary', 'tags', 'sensitive'];
+
+const csvField = (value: string | number | undefined) => {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const historyToCsv = (items: HistoryItem[]) => [
+  CSV_COLUMNS.join(','),
+  ...items.map(item => [
+    new Date(item.timestamp).toISOString(),
+    item.direction,
+    item.name,
+    item.type,
+    item.size,
+    item.sender.name,
+    (item.recipients || []).map(device => device.name).join('; '),
+    item.averageRate !== undefined ? Math.round(item.averageRate) : undefined,
+    item.path,
+    item.text,
+    item.insight?.category,
+    item.insight?.summary,
+    item.insight?.tags.join('; '),
+    item.insight && (item.insight.sensitive ? 'yes' : 'no')
+  ].map(csvField).join(','))
+].join('\r\n');
+
+export const historyToJson = (items: HistoryItem[]) => JSON.stringify(items.map(({ fileKept, ...item }) => item), null, 2);
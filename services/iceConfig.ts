@@ -0,0 +1,111 @@
+import { CandidateType } from './transferStats';
+
+// Where WebRTC looks for a path between the devices. STUN finds the public address behind a
+// NAT; TURN relays the traffic when no direct path exists (e.g. symmetric NAT on corporate networks).
+export interface IceSettings {
+  stunUrls: string[];
+  turnUrls: string[];
+  turnUsername: string;
+  turnCredential: string;
+  // TURN REST API endpoint handing out time-limited credentials; used instead of the static ones
+  credentialsUrl: string;
+  // Only use relayed candidates, e.g. to keep the device's addresses private
+  relayOnly: boolean;
+}
+
+const STORAGE_KEY = 'orbit_ice_settings';
+
+const GOOGLE_STUN_URLS = ['stun:stun.l.google.com:19302', 'stun:stun1.l.google.com:19302', 'stun:stun2.l.google.com:19302'];
+
+const splitUrls = (value: string | undefined) => (value || '').split(/[\s,]+/).map(url => url.trim()).filter(Boolean);
+
+// Build-time defaults from .env.local; the settings screen overrides them per device
+export const DEFAULT_ICE_SETTINGS: IceSettings = {
+  stunUrls: process.env.STUN_URLS ? splitUrls(process.env.STUN_URLS) : GOOGLE_STUN_URLS,
+  turnUrls: splitUrls(process.env.TURN_URLS),
+  turnUsername: process.env.TURN_USERNAME || '',
+  turnCredential: process.env.TURN_CREDENTIAL || '',
+  credentialsUrl: process.env.TURN_CREDENTIALS_URL || '',
+  relayOnly: process.env.ICE_RELAY_ONLY === 'true'
+};
+
+export const DEFAULT_RTC_CONFIG: RTCConfiguration = {
+  iceServers: GOOGLE_STUN_URLS.map(urls => ({ urls }))
+};
+
+export const loadIceSettings = (): IceSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_ICE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_ICE_SETTINGS;
+  } catch (e) {
+    return DEFAULT_ICE_SETTINGS;
+  }
+};
+
+export const saveIceSettings = (settings: IceSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Response format of the TURN REST API (draft-uberti-behave-turn-rest), as served by
+// `npm run relay` when TURN_SECRET is set
+interface RestCredentials {
+  username: string;
+  password?: string;
+  credential?: string;
+  ttl?: number;
+  uris?: string[];
+}
+
+const fetchRestCredentials = async (url: string): Promise<RestCredentials> => {
+  const response = await fetch(url, { cache: 'no-store' });
+  if (!response.ok) throw new Error(`TURN credentials request failed (${response.status})`);
+  const body = await response.json();
+  if (typeof body?.username !== 'string' || typeof (body.password ?? body.credential) !== 'string') {
+    throw new Error('TURN credentials response is missing a username or password');
+  }
+  return body;
+};
+
+const buildConfig = (settings: IceSettings, turnUrls: string[], username: string, credential: string): RTCConfiguration => {
+  const iceServers: RTCIceServer[] = [];
+  if (settings.stunUrls.length > 0) iceServers.push({ urls: settings.stunUrls });
+  if (turnUrls.length > 0) iceServers.push({ urls: turnUrls, username, credential });
+  return { iceServers, iceTransportPolicy: settings.relayOnly ? 'relay' : 'all' };
+};
+
+// Fetches REST credentials when configured, so call this right before connecting: they expire
+export const resolveIceConfig = async (settings: IceSettings): Promise<RTCConfiguration> => {
+  if (!settings.credentialsUrl) {
+    return buildConfig(settings, settings.turnUrls, settings.turnUsername, settings.turnCredential);
+  }
+  const rest = await fetchRestCredentials(settings.credentialsUrl);
+  const turnUrls = rest.uris && rest.uris.length > 0 ? rest.uris : settings.turnUrls;
+  return buildConfig(settings, turnUrls, rest.username, (rest.password ?? rest.credential)!);
+};
+
+// Gathers candidates against the configured servers without connecting to anyone. A relay
+// candidate means the TURN server accepted the credentials.
+export const probeIceServers = async (config: RTCConfiguration, timeoutMs = 5000): Promise<CandidateType[]> => {
+  const peerConnection = new RTCPeerConnection(config);
+  const found = new Set<CandidateType>();
+  try {
+    await new Promise<void>(resolve => {
+      const timer = setTimeout(resolve, timeoutMs);
+      peerConnection.onicecandidate = (event) => {
+        if (!event.candidate) {
+          clearTimeout(timer);
+          resolve();
+        } else if (event.candidate.type) {
+          found.add(event.candidate.type);
+        }
+      };
+      peerConnection.createDataChannel('probe');
+      peerConnection.createOffer()
+        .then(offer => peerConnection.setLocalDescription(offer))
+        .catch(() => resolve());
+    });
+  } finally {
+    peerConnection.close();
+  }
+  return [...found];
+};
@@ -0,0 +1,101 @@
+import { geminiInsightProvider, hasGeminiKey } from './geminiService';
+import { offlineInsightProvider } from './offlineInsights';
+import { ContentSample, sampleContent } from './contentSample';
+import { FileInsight } from '../types';
+
+export type InsightProviderId = 'gemini' | 'offline' | 'disabled';
+
+// What a provider gets to look at. The offline classifier reads the start of the blob; only
+// the name, type, size and, when the user allowed it, the sample go to a hosted one.
+export interface InsightRequest {
+  name: string;
+  type: string;
+  size: number;
+  blob?: Blob;
+  sample?: ContentSample;
+}
+
+export interface InsightProvider {
+  id: InsightProviderId;
+  // Sends the request off the device
+  remote: boolean;
+  // Undefined when there's nothing worth showing
+  describe(request: InsightRequest): Promise<FileInsight | undefined>;
+}
+
+export interface InsightSettings {
+  provider: InsightProviderId;
+  // Room codes whose transfers never go to a remote provider; trusted rooms keep their code
+  privateRooms: string[];
+  // Let a remote provider see a bounded sample of the content, not just the metadata
+  shareContent: boolean;
+}
+
+const STORAGE_KEY = 'orbit_insight_settings';
+// Codes of one-off rooms pile up otherwise
+const MAX_PRIVATE_ROOMS = 50;
+
+const disabledInsightProvider: InsightProvider = {
+  id: 'disabled',
+  remote: false,
+  describe: async () => undefined
+};
+
+const PROVIDERS: Record<InsightProviderId, InsightProvider> = {
+  gemini: geminiInsightProvider,
+  offline: offlineInsightProvider,
+  disabled: disabledInsightProvider
+};
+
+// Without an API key the hosted model isn't an option, so nothing is sent by default
+export const DEFAULT_INSIGHT_SETTINGS: InsightSettings = {
+  provider: hasGeminiKey() ? 'gemini' : 'offline',
+  privateRooms: [],
+  shareContent: false
+};
+
+export const loadInsightSettings = (): InsightSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_INSIGHT_SETTINGS, ...JSON.parse(saved) } : DEFAULT_INSIGHT_SETTINGS;
+  } catch (e) {
+    return DEFAULT_INSIGHT_SETTINGS;
+  }
+};
+
+export const saveInsightSettings = (settings: InsightSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const isPrivateRoom = (settings: InsightSettings, roomId: string | null) =>
+  !!roomId && settings.privateRooms.includes(roomId);
+
+export const setRoomPrivate = (settings: InsightSettings, roomId: string, isPrivate: boolean): InsightSettings => {
+  const others = settings.privateRooms.filter(id => id !== roomId);
+  return { ...settings, privateRooms: isPrivate ? [...others, roomId].slice(-MAX_PRIVATE_ROOMS) : others };
+};
+
+// A host room that moves to a fresh code is still the same room, so its privacy goes with it
+export const renameRoom = (settings: InsightSettings, from: string | null, to: string): InsightSettings =>
+  isPrivateRoom(settings, from) ? setRoomPrivate(setRoomPrivate(settings, from!, false), to, true) : settings;
+
+// A remote provider falls back to the offline one when it has no key or the room is private
+export const activeInsightProvider = (settings: InsightSettings, roomId: string | null): InsightProvider => {
+  const chosen = PROVIDERS[settings.provider] || offlineInsightProvider;
+  if (!chosen.remote) return chosen;
+  return hasGeminiKey() && !isPrivateRoom(settings, roomId) ? chosen : offlineInsightProvider;
+};
+
+// A failed remote call is logged and answered offline rather than with a made-up line
+export const getFileInsight = async (settings: InsightSettings, roomId: string | null, request: InsightRequest): Promise<FileInsight | undefined> => {
+  const provider = activeInsightProvider(settings, roomId);
+  try {
+    const sample = provider.remote && settings.shareContent && request.blob
+      ? await sampleContent(request.blob, request.name, request.type)
+      : undefined;
+    return await provider.describe({ ...request, sample });
+  } catch (e) {
+    console.warn(`Insight provider "${provider.id}" failed`, e);
+    return provider === offlineInsightProvider ? undefined : offlineInsightProvider.describe(request).catch(() => undefined);
+  }
+};
@@ -0,0 +1,92 @@
+import { Sha256, sha256Hex, toHex } from './sha256';
+
+// Bytes covered by one CHUNK_DIGEST message; also the unit that gets re-requested on a mismatch
+export const DIGEST_GROUP_SIZE = 1024 * 1024;
+
+export interface GroupDigest {
+  offset: number;
+  length: number;
+  sha256: string;
+}
+
+const encoder = new TextEncoder();
+
+export const groupOffsetFor = (offset: number) => Math.floor(offset / DIGEST_GROUP_SIZE) * DIGEST_GROUP_SIZE;
+
+// Identifies "the same file" across sessions, e.g. when the sender re-selects it to resume
+export const fileFingerprint = (file: File) =>
+  sha256Hex(encoder.encode(`${file.name}|${file.size}|${file.lastModified}`));
+
+// Chain value before any group has been committed
+export const INITIAL_CHAIN = '0'.repeat(64);
+
+// Hashes a sequential byte stream group by group. The file digest is a hash chain over
+// the group digests (chain = SHA-256(chain || group digest)), so the whole state at a
+// group boundary is one 64-char hex value that a resumed transfer can pick up from.
+export class TransferHasher {
+  private groupHasher = new Sha256();
+  private groupStart: number;
+  private groupLength = 0;
+  // Committed digests waiting for the groups before them, keyed by group offset
+  private pending = new Map<number, string>();
+  private chain: string;
+  private chainOffset: number;
+
+  constructor(offset = 0, chain = INITIAL_CHAIN) {
+    this.groupStart = offset;
+    this.chainOffset = offset;
+    this.chain = chain;
+  }
+
+  // Returns the groups completed by these bytes
+  update(data: Uint8Array): GroupDigest[] {
+    const completed: GroupDigest[] = [];
+    let pos = 0;
+    while (pos < data.byteLength) {
+      const take = Math.min(DIGEST_GROUP_SIZE - this.groupLength, data.byteLength - pos);
+      this.groupHasher.update(data.subarray(pos, pos + take));
+      this.groupLength += take;
+      pos += take;
+      if (this.groupLength === DIGEST_GROUP_SIZE) {
+        completed.push(this.closeGroup());
+      }
+    }
+    return completed;
+  }
+
+  // Flushes the trailing partial group at end of stream
+  finish(): GroupDigest[] {
+    return this.groupLength > 0 ? [this.closeGroup()] : [];
+  }
+
+  // Adds a trusted group digest to the chain. Groups may be committed out of order
+  // (e.g. after a repair); the chain only advances over a contiguous prefix.
+  commitGroup(offset: number, sha256: string) {
+    if (offset < this.chainOffset) return;
+    this.pending.set(offset, sha256);
+    while (this.pending.has(this.chainOffset)) {
+      const digest = this.pending.get(this.chainOffset)!;
+      this.pending.delete(this.chainOffset);
+      this.chain = toHex(new Sha256().update(encoder.encode(this.chain + digest)).digest());
+      this.chainOffset += DIGEST_GROUP_SIZE;
+    }
+  }
+
+  // End of the contiguous committed prefix (may overshoot the file size on the last group)
+  get verifiedOffset(): number {
+    return this.chainOffset;
+  }
+
+  // Once every group is committed this is the file digest
+  get chainDigest(): string {
+    return this.chain;
+  }
+
+  private closeGroup(): GroupDigest {
+    const group = { offset: this.groupStart, length: this.groupLength, sha256: toHex(this.groupHasher.digest()) };
+    this.groupStart += this.groupLength;
+    this.groupLength = 0;
+    this.groupHasher = new Sha256();
+    return group;
+  }
+}
@@ -0,0 +1,227 @@
+import type { InsightProvider, InsightRequest } from './insightProvider';
+import { readTextSample } from './contentSample';
+import { FileInsight, InsightCategory } from '../types';
+
+// Container formats the leading bytes can prove; several kinds share one (a .docx is a ZIP)
+type Magic = 'pdf' | 'png' | 'jpeg' | 'gif' | 'webp' | 'riff-wave' | 'riff-avi' | 'ftyp' | 'ebml' | 'mp3' | 'ogg' | 'flac'
+  | 'zip' | 'gzip' | '7z' | 'rar' | 'bzip2' | 'xz' | 'zstd' | 'exe' | 'elf' | 'macho' | 'sqlite' | 'wasm';
+
+interface Kind {
+  category: InsightCategory;
+  description: string;
+  magic?: Magic;
+  // Runs code when opened
+  executable?: boolean;
+}
+
+const HEAD_SIZE = 32;
+
+const KINDS: Record<string, Kind> = {
+  pdf: { category: 'document', description: 'PDF document, a fixed-layout format for reports, forms and scans', magic: 'pdf' },
+  png: { category: 'image', description: 'PNG image, lossless and common for screenshots and graphics', magic: 'png' },
+  jpeg: { category: 'image', description: 'JPEG photo, the usual format for camera and phone pictures', magic: 'jpeg' },
+  gif: { category: 'image', description: 'GIF image, often a short looping animation', magic: 'gif' },
+  webp: { category: 'image', description: 'WebP image, a compact web format for photos and graphics', magic: 'webp' },
+  heic: { category: 'image', description: 'HEIC photo, the default picture format on recent iPhones', magic: 'ftyp' },
+  svg: { category: 'image', description: 'SVG vector graphic, scales to any size without losing sharpness' },
+  mp4: { category: 'video', description: 'MP4 video, playable on nearly every device', magic: 'ftyp' },
+  mov: { category: 'video', description: 'QuickTime video, as recorded by iPhones and Macs', magic: 'ftyp' },
+  webm: { category: 'video', description: 'WebM video, an open format used on the web', magic: 'ebml' },
+  mkv: { category: 'video', description: 'Matroska video, a container for films with several audio or subtitle tracks', magic: 'ebml' },
+  avi: { category: 'video', description: 'AVI video, an older Windows video container', magic: 'riff-avi' },
+  mp3: { category: 'audio', description: 'MP3 audio, the common format for music and podcasts', magic: 'mp3' },
+  m4a: { category: 'audio', description: 'M4A audio, AAC sound as used by voice memos and music stores', magic: 'ftyp' },
+  wav: { category: 'audio', description: 'WAV audio, uncompressed sound used for recording and editing', magic: 'riff-wave' },
+  ogg: { category: 'audio', description: 'Ogg audio, an open format for music and voice', magic: 'ogg' },
+  flac: { category: 'audio', description: 'FLAC audio, lossless music', magic: 'flac' },
+  zip: { category: 'archive', description: 'ZIP archive bundling one or more compressed files', magic: 'zip' },
+  docx: { category: 'document', description: 'Word document', magic: 'zip' },
+  xlsx: { category: 'spreadsheet', description: 'Excel spreadsheet', magic: 'zip' },
+  pptx: { category: 'presentation', description: 'PowerPoint presentation', magic: 'zip' },
+  odt: { category: 'document', description: 'OpenDocument text document', magic: 'zip' },
+  epub: { category: 'document', description: 'EPUB e-book', magic: 'zip' },
+  apk: { category: 'program', description: 'Android app package; only install it if you trust the sender', magic: 'zip', executable: true },
+  jar: { category: 'program', description: 'Java archive; it can run code when opened', magic: 'zip', executable: true },
+  gz: { category: 'archive', description: 'Gzip-compressed file, often a log or a tarball', magic: 'gzip' },
+  '7z': { category: 'archive', description: '7-Zip archive with high compression', magic: '7z' },
+  rar: { category: 'archive', description: 'RAR archive', magic: 'rar' },
+  bz2: { category: 'archive', description: 'Bzip2-compressed file', magic: 'bzip2' },
+  xz: { category: 'archive', description: 'XZ-compressed file, common for source and system images', magic: 'xz' },
+  zst: { category: 'archive', description: 'Zstandard-compressed file', magic: 'zstd' },
+  tar: { category: 'archive', description: 'Tar archive bundling files and folders' },
+  exe: { category: 'program', description: 'Windows program; only run it if you expected it', magic: 'exe', executable: true },
+  msi: { category: 'program', description: 'Windows installer; only run it if you expected it', executable: true },
+  dmg: { category: 'program', description: 'macOS disk image, usually an app installer' },
+  elf: { category: 'program', description: 'Linux program or library', magic: 'elf', executable: true },
+  macho: { category: 'program', description: 'macOS program or library', magic: 'macho', executable: true },
+  sqlite: { category: 'data', description: 'SQLite database, as used by many apps to store their data', magic: 'sqlite' },
+  wasm: { category: 'program', description: 'WebAssembly module', magic: 'wasm', executable: true },
+  txt: { category: 'document', description: 'Plain text file' },
+  md: { category: 'document', description: 'Markdown text, as used for notes and READMEs' },
+  csv: { category: 'spreadsheet', description: 'CSV table that opens in any spreadsheet app' },
+  json: { category: 'data', description: 'JSON data, as used for configuration and exports' },
+  log: { category: 'data', description: 'Log file with timestamped application output' },
+  html: { category: 'code', description: 'Web page' },
+  source: { category: 'code', description: 'Source code file' },
+  script: { category: 'code', description: 'Shell script; it can run commands when executed', executable: true },
+  ics: { category: 'data', description: 'Calendar event that can be added to a calendar app' },
+  vcf: { category: 'data', description: 'Contact card that can be added to an address book' },
+  key: { category: 'data', description: 'Key or certificate file; it may be a secret, so keep it private' }
+};
+
+const EXTENSIONS: Record<string, string> = {
+  pdf: 'pdf', png: 'png', jpg: 'jpeg', jpeg: 'jpeg', gif: 'gif', webp: 'webp', heic: 'heic', heif: 'heic', svg: 'svg',
+  mp4: 'mp4', m4v: 'mp4', mov: 'mov', webm: 'webm', mkv: 'mkv', avi: 'avi',
+  mp3: 'mp3', m4a: 'm4a', aac: 'm4a', wav: 'wav', ogg: 'ogg', opus: 'ogg', flac: 'flac',
+  zip: 'zip', docx: 'docx', xlsx: 'xlsx', pptx: 'pptx', odt: 'odt', epub: 'epub', apk: 'apk', jar: 'jar',
+  gz: 'gz', tgz: 'gz', '7z': '7z', rar: 'rar', bz2: 'bz2', xz: 'xz', zst: 'zst', tar: 'tar',
+  exe: 'exe', dll: 'exe', msi: 'msi', dmg: 'dmg', so: 'elf', dylib: 'macho',
+  sqlite: 'sqlite', db: 'sqlite', wasm: 'wasm',
+  txt: 'txt', md: 'md', csv: 'csv', tsv: 'csv', json: 'json', log: 'log', html: 'html', htm: 'html',
+  js: 'source', ts: 'source', tsx: 'source', jsx: 'source', py: 'source', java: 'source', kt: 'source', swift: 'source',
+  c: 'source', h: 'source', cpp: 'source', go: 'source', rs: 'source', rb: 'source', css: 'source',
+  sh: 'script', bat: 'script', ps1: 'script', command: 'script',
+  ics: 'ics', vcf: 'vcf', pem: 'key', key: 'key', p12: 'key', pfx: 'key', crt: 'key'
+};
+
+// What a format's own bytes most often mean, for when the name says something else
+const MAGIC_KINDS: Record<Magic, string> = {
+  pdf: 'pdf', png: 'png', jpeg: 'jpeg', gif: 'gif', webp: 'webp', 'riff-wave': 'wav', 'riff-avi': 'avi', ftyp: 'mp4',
+  ebml: 'mkv', mp3: 'mp3', ogg: 'ogg', flac: 'flac', zip: 'zip', gzip: 'gz', '7z': '7z', rar: 'rar', bzip2: 'bz2',
+  xz: 'xz', zstd: 'zst', exe: 'exe', elf: 'elf', macho: 'macho', sqlite: 'sqlite', wasm: 'wasm'
+};
+
+const startsWith = (head: Uint8Array, bytes: number[], offset = 0) => bytes.every((byte, i) => head[offset + i] === byte);
+const ascii = (text: string) => Array.from(text, char => char.charCodeAt(0));
+
+const SIGNATURES: [Magic, (head: Uint8Array) => boolean][] = [
+  ['pdf', head => startsWith(head, ascii('%PDF-'))],
+  ['png', head => startsWith(head, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])],
+  ['jpeg', head => startsWith(head, [0xff, 0xd8, 0xff])],
+  ['gif', head => startsWith(head, ascii('GIF8'))],
+  ['webp', head => startsWith(head, ascii('RIFF')) && startsWith(head, ascii('WEBP'), 8)],
+  ['riff-wave', head => startsWith(head, ascii('RIFF')) && startsWith(head, ascii('WAVE'), 8)],
+  ['riff-avi', head => startsWith(head, ascii('RIFF')) && startsWith(head, ascii('AVI '), 8)],
+  ['ftyp', head => startsWith(head, ascii('ftyp'), 4)],
+  ['ebml', head => startsWith(head, [0x1a, 0x45, 0xdf, 0xa3])],
+  ['mp3', head => startsWith(head, ascii('ID3')) || (head[0] === 0xff && (head[1] & 0xe0) === 0xe0)],
+  ['ogg', head => startsWith(head, ascii('OggS'))],
+  ['flac', head => startsWith(head, ascii('fLaC'))],
+  ['zip', head => startsWith(head, [0x50, 0x4b, 0x03, 0x04]) || startsWith(head, [0x50, 0x4b, 0x05, 0x06])],
+  ['gzip', head => startsWith(head, [0x1f, 0x8b])],
+  ['7z', head => startsWith(head, [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c])],
+  ['rar', head => startsWith(head, ascii('Rar!'))],
+  ['bzip2', head => startsWith(head, ascii('BZh'))],
+  ['xz', head => startsWith(head, [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00])],
+  ['zstd', head => startsWith(head, [0x28, 0xb5, 0x2f, 0xfd])],
+  ['exe', head => startsWith(head, ascii('MZ'))],
+  ['elf', head => startsWith(head, [0x7f, 0x45, 0x4c, 0x46])],
+  ['macho', head => [[0xfe, 0xed, 0xfa, 0xce], [0xfe, 0xed, 0xfa, 0xcf], [0xce, 0xfa, 0xed, 0xfe], [0xcf, 0xfa, 0xed, 0xfe], [0xca, 0xfe, 0xba, 0xbe]].some(bytes => startsWith(head, bytes))],
+  ['sqlite', head => startsWith(head, ascii('SQLite format 3'))],
+  ['wasm', head => startsWith(head, [0x00, 0x61, 0x73, 0x6d])]
+];
+
+const WEAK_SIGNATURES: Magic[] = ['mp3', 'bzip2'];
+
+const MIME_FAMILIES: Record<string, [string, InsightCategory]> = {
+  image: ['Image', 'image'],
+  video: ['Video', 'video'],
+  audio: ['Audio file', 'audio'],
+  text: ['Text file', 'document'],
+  font: ['Font', 'other']
+};
+
+// Names that usually mean personal or confidential papers
+const SENSITIVE_NAMES = /(?:^|[^a-z])(passport|driver'?s?[ _-]?licen[cs]e|id[ _-]?card|ssn|social[ _-]?security|tax(?:es)?|w-?2|payslip|pay[ _-]?stub|salary|bank|statement|invoice|contract|medical|prescription|diagnos|insurance|password|credential|secret|private[ _-]?key|id_rsa|id_ed25519)|^\.env/i;
+
+// Found in the first bytes of a text file: keys, card numbers, national ids, bank accounts, inline passwords
+const SENSITIVE_TEXT = [
+  /-----BEGIN [A-Z ]*PRIVATE KEY-----/,
+  /\b\d{3}-\d{2}-\d{4}\b/,
+  /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){3,7}\b/,
+  /\b(password|passwd|api[_-]?key|secret|token)\s*[:=]\s*\S{6,}/i
+];
+
+// Luhn-valid runs of 13 to 19 digits, allowing spaces or dashes in groups
+const hasCardNumber = (text: string) => (text.match(/\b\d(?:[ -]?\d){12,18}\b/g) || [] as string[]).some(candidate => {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) digit = digit * 2 > 9 ? digit * 2 - 9 : digit * 2;
+    sum += digit;
+  }
+  return sum % 10 === 0;
+});
+
+const extensionOf = (name: string) => {
+  const match = /\.([a-z0-9]+)$/i.exec(name);
+  return match ? match[1].toLowerCase() : '';
+};
+
+const readMagic = async (blob: Blob | undefined): Promise<Magic | undefined> => {
+  if (!blob || blob.size === 0) return undefined;
+  try {
+    const head = new Uint8Array(await blob.slice(0, HEAD_SIZE).arrayBuffer());
+    return SIGNATURES.find(([, test]) => test(head))?.[0];
+  } catch (e) {
+    return undefined;
+  }
+};
+
+// The text never leaves the device, so it is read without asking
+const looksSensitive = async ({ name, type, blob }: InsightRequest, kind?: string) => {
+  if (kind === 'key' || SENSITIVE_NAMES.test(name)) return true;
+  const text = blob && await readTextSample(blob, name, type);
+  return !!text && (SENSITIVE_TEXT.some(pattern => pattern.test(text)) || hasCardNumber(text));
+};
+
+const insight = (category: InsightCategory, summary: string, tags: string[], sensitive: boolean): FileInsight => ({
+  category,
+  summary,
+  tags: [...new Set([category, ...tags])],
+  sensitive
+});
+
+// Names a file from its extension and, when the bytes are at hand, its signature. A name
+// that doesn't match the contents is called out, since that's how a program poses as a photo.
+export const classifyFile = async (request: InsightRequest): Promise<FileInsight | undefined> => {
+  const { name, type, blob } = request;
+  if (type === 'inode/directory') return insight('archive', 'Folder of files sent as one bundle.', ['folder'], SENSITIVE_NAMES.test(name));
+  const extension = extensionOf(name);
+  const named = EXTENSIONS[extension];
+  const magic = await readMagic(blob);
+
+  // Plain text can start with these bytes by chance
+  const trusted = magic && !(named && !KINDS[named].magic && WEAK_SIGNATURES.includes(magic));
+  if (magic && trusted && (!named || KINDS[named].magic !== magic)) {
+    const kind = MAGIC_KINDS[magic];
+    const actual = KINDS[kind];
+    const executable = actual.executable ? ['executable'] : [];
+    if (!named) return insight(actual.category, `${actual.description}.`, [kind, ...executable], await looksSensitive(request, kind));
+    const warning = actual.executable ? ' Be careful opening it.' : '';
+    const summary = `${actual.description.split(/[,;]/)[0]}, though it's named .${extension}.${warning}`;
+    return insight(actual.category, summary, [kind, 'renamed', ...executable], await looksSensitive(request, kind));
+  }
+  if (named) {
+    const kind = KINDS[named];
+    return insight(kind.category, `${kind.description}.`, [named, ...(kind.executable ? ['executable'] : [])], await looksSensitive(request, named));
+  }
+
+  const family = MIME_FAMILIES[type.split('/')[0]];
+  const tags = extension ? [extension] : [];
+  if (family) {
+    const [label, category] = family;
+    return insight(category, extension ? `${label} in the .${extension} format.` : `${label}.`, tags, await looksSensitive(request));
+  }
+  const sensitive = await looksSensitive(request);
+  if (extension) return insight('other', `.${extension.toUpperCase()} file of a type Orbit doesn't recognise.`, tags, sensitive);
+  return sensitive ? insight('other', 'File without an extension whose name suggests private data.', [], true) : undefined;
+};
+
+// Needs no key and no network; reads the first bytes of the file, and the start of text files
+export const offlineInsightProvider: InsightProvider = {
+  id: 'offline',
+  remote: false,
+  describe: classifyFile
+};
@@ -0,0 +1,78 @@
+import { Sha256, toHex } from './sha256';
+
+// Everything here is pure JS on purpose: it has to work on plain-http LAN origins
+// where crypto.subtle doesn't exist, since it is what authenticates signaling.
+
+const encoder = new TextEncoder();
+
+export const utf8 = (text: string) => encoder.encode(text);
+
+export const concatBytes = (...parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  parts.forEach(p => { out.set(p, offset); offset += p.byteLength; });
+  return out;
+};
+
+export const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+
+export const fromBase64 = (text: string) => Uint8Array.from(atob(text), c => c.charCodeAt(0));
+
+export const hmacSha256 = (key: Uint8Array, data: Uint8Array): Uint8Array => {
+  const block = new Uint8Array(64);
+  block.set(key.byteLength > 64 ? new Sha256().update(key).digest() : key);
+  const inner = new Sha256().update(block.map(b => b ^ 0x36)).update(data).digest();
+  return new Sha256().update(block.map(b => b ^ 0x5c)).update(inner).digest();
+};
+
+// RFC 5869
+export const hkdf = (ikm: Uint8Array, salt: Uint8Array, info: Uint8Array, length: number): Uint8Array => {
+  const prk = hmacSha256(salt, ikm);
+  const out = new Uint8Array(length);
+  let previous = new Uint8Array(0);
+  for (let i = 0, offset = 0; offset < length; i++) {
+    previous = hmacSha256(prk, concatBytes(previous, info, new Uint8Array([i + 1])));
+    out.set(previous.subarray(0, length - offset), offset);
+    offset += previous.byteLength;
+  }
+  return out;
+};
+
+const ALPHANUMERIC = '0123456789abcdefghijklmnopqrstuvwxyz';
+
+// Lowercase letters and digits from getRandomValues; bytes past the last whole multiple of 36
+// are skipped so every character is equally likely
+export const randomAlphanumeric = (length: number) => {
+  let text = '';
+  while (text.length < length) {
+    for (const byte of crypto.getRandomValues(new Uint8Array(length))) {
+      if (byte < 252 && text.length < length) text += ALPHANUMERIC[byte % 36];
+    }
+  }
+  return text;
+};
+
+// Constant-time comparison for MACs
+export const bytesEqual = (a: Uint8Array, b: Uint8Array) => {
+  if (a.byteLength !== b.byteLength) return false;
+  let diff = 0;
+  for (let i = 0; i < a.byteLength; i++) diff |= a[i] ^ b[i];
+  return diff === 0;
+};
+
+const PAIRING_SALT = utf8('orbit-pairing-v1');
+
+// The room code (plus the QR secret when there is one) is the only thing both devices
+// share up front. A 6-character code is guessable offline, so it authenticates signaling
+// against casual injection; the SAS comparison is what rules out an active attacker.
+export const derivePairingKey = (roomId: string, secret?: string): Uint8Array =>
+  hkdf(utf8(roomId.toUpperCase() + (secret ? `|${secret}` : '')), PAIRING_SALT, utf8('pairing-key'), 32);
+
+// Name under which a room is signaled, so relays and other tabs never see the code itself
+export const roomTag = (roomId: string, secret?: string) =>
+  toHex(hkdf(utf8(roomId.toUpperCase() + (secret ? `|${secret}` : '')), PAIRING_SALT, utf8('room-tag'), 8)).toUpperCase();
+
+export const macHex = (key: Uint8Array, payload: string) => toHex(hmacSha256(key, utf8(payload)));
+
+export const verifyMacHex = (key: Uint8Array, payload: string, mac: unknown) =>
+  typeof mac === 'string' && bytesEqual(utf8(macHex(key, payload)), utf8(mac));
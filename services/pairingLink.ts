@@ -0,0 +1,63 @@
+import { randomAlphanumeric, toBase64 } from './pairingCrypto';
+
+// What a QR code or deep link tells a guest: the room, plus an optional secret that has to be
+// known on top of the code and the relay the host signals through
+export interface PairingTarget {
+  roomId: string;
+  secret?: string;
+  signalingUrl?: string;
+  // Epoch milliseconds after which the link is no longer offered
+  expires?: number;
+}
+
+// How long a shown code stays valid before an idle room rotates to a new one
+export const PAIRING_LINK_TTL_MS = 10 * 60 * 1000;
+
+const ROOM_CODE = /^[A-Z0-9]{6}$/;
+const SECRET = /^[A-Za-z0-9_-]{8,64}$/;
+
+// The code is what pairing keys are derived from, so it can't come from Math.random
+export const newRoomCode = () => randomAlphanumeric(6).toUpperCase();
+
+// Pure getRandomValues, so it works on plain-http LAN origins too
+export const newRoomSecret = () =>
+  toBase64(crypto.getRandomValues(new Uint8Array(12))).replace(/\+/g, '-').replace(/\//g, '_');
+
+// https://host/path#join=ABC123&k=<secret>&sig=<relay>&exp=<seconds>; the fragment never reaches a server
+export const pairingUrl = (target: PairingTarget, base: Location = window.location) => {
+  const params = new URLSearchParams({ join: target.roomId });
+  if (target.secret) params.set('k', target.secret);
+  if (target.signalingUrl) params.set('sig', target.signalingUrl);
+  if (target.expires) params.set('exp', String(Math.floor(target.expires / 1000)));
+  return `${base.origin}${base.pathname}#${params}`;
+};
+
+const parseParams = (params: URLSearchParams): PairingTarget | null => {
+  const roomId = (params.get('join') || '').toUpperCase();
+  if (!ROOM_CODE.test(roomId)) return null;
+  const secret = params.get('k') || undefined;
+  if (secret && !SECRET.test(secret)) return null;
+  const signalingUrl = params.get('sig') || undefined;
+  if (signalingUrl && !/^wss?:\/\/[^\s]+$/i.test(signalingUrl)) return null;
+  const exp = Number(params.get('exp'));
+  return { roomId, secret, signalingUrl, expires: exp > 0 ? exp * 1000 : undefined };
+};
+
+// Accepts a bare room code or a pairing link from any Orbit host
+export const parsePairingPayload = (text: string): PairingTarget | null => {
+  const trimmed = text.trim();
+  if (ROOM_CODE.test(trimmed.toUpperCase())) return { roomId: trimmed.toUpperCase() };
+  const hash = trimmed.indexOf('#');
+  if (hash < 0 || !/^https?:\/\//i.test(trimmed)) return null;
+  return parseParams(new URLSearchParams(trimmed.slice(hash + 1)));
+};
+
+export const isExpired = (target: PairingTarget) => !!target.expires && target.expires < Date.now();
+
+// The link the app was opened with, if any; removed from the address bar so a reload doesn't rejoin
+export const takePairingLink = (): PairingTarget | null => {
+  if (!window.location.hash.includes('join=')) return null;
+  const target = parseParams(new URLSearchParams(window.location.hash.slice(1)));
+  window.history.replaceState(null, '', window.location.pathname + window.location.search);
+  return target;
+};
@@ -0,0 +1,33 @@
+// Seconds of unused rate that may be spent at once after the sender was idle
+const BURST_SECONDS = 0.25;
+
+// Token bucket for outgoing bytes. Callers take what they are about to send and wait once
+// they are ahead of the rate; concurrent callers queue up behind each other's debt.
+export class RateLimiter {
+  private allowance = 0;
+  private last = performance.now();
+
+  // Bytes per second; 0 means unlimited
+  constructor(private bytesPerSecond = 0) {}
+
+  get rate() {
+    return this.bytesPerSecond;
+  }
+
+  setRate(bytesPerSecond: number) {
+    this.bytesPerSecond = Math.max(0, bytesPerSecond);
+    this.allowance = 0;
+    this.last = performance.now();
+  }
+
+  async take(bytes: number) {
+    if (this.bytesPerSecond <= 0) return;
+    const now = performance.now();
+    this.allowance = Math.min(this.bytesPerSecond * BURST_SECONDS, this.allowance + ((now - this.last) / 1000) * this.bytesPerSecond);
+    this.last = now;
+    this.allowance -= bytes;
+    if (this.allowance < 0) {
+      await new Promise(resolve => setTimeout(resolve, (-this.allowance / this.bytesPerSecond) * 1000));
+    }
+  }
+}
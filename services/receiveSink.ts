@@ -0,0 +1,276 @@
+
+// Files up to this size are assembled in memory; anything larger is streamed to disk
+const IN_MEMORY_LIMIT = 64 * 1024 * 1024;
+const OPFS_DIRECTORY = 'orbit-received';
+// Unit in which OPFS-backed files are committed to disk; a multiple of DIGEST_GROUP_SIZE
+const SEGMENT_SIZE = 64 * 1024 * 1024;
+
+// Destination for the bytes of one incoming file. Writes are queued so chunks
+// can be handed over synchronously from the data channel in arrival order.
+// Writing to an already written position overwrites it (used for repaired ranges).
+export interface ReceiveSink {
+  write(position: number, chunk: ArrayBuffer): void;
+  // Resolves once every write queued so far has landed
+  flushed(): Promise<void>;
+  // Resolves to the stored file once every queued write has landed
+  finish(): Promise<Blob>;
+  abort(): Promise<void>;
+  // Throws away everything written so far, e.g. when the sender restarts from byte 0
+  reset(): void;
+  // Length of the prefix that is durably stored and would survive a page reload
+  committedBytes(): number;
+}
+
+class MemorySink implements ReceiveSink {
+  private bytes: Uint8Array;
+
+  constructor(size: number, private mimeType: string) {
+    this.bytes = new Uint8Array(size);
+  }
+
+  write(position: number, chunk: ArrayBuffer) {
+    this.bytes.set(new Uint8Array(chunk), position);
+  }
+
+  async flushed() {}
+
+  async finish(): Promise<Blob> {
+    const blob = new Blob([this.bytes], { type: this.mimeType });
+    this.bytes = new Uint8Array(0);
+    return blob;
+  }
+
+  async abort() {
+    this.bytes = new Uint8Array(0);
+  }
+
+  reset() {
+    this.bytes.fill(0);
+  }
+
+  committedBytes() {
+    return 0;
+  }
+}
+
+// Streams into any FileSystemFileHandle via createWritable(), so only the in-flight chunks stay in memory
+class WritableFileSink implements ReceiveSink {
+  private writable: FileSystemWritableFileStream | null = null;
+  private queue: Promise<void>;
+  private error: unknown = null;
+
+  constructor(private handle: Promise<FileSystemFileHandle>) {
+    this.queue = handle
+      .then(h => h.createWritable())
+      .then(w => { this.writable = w; })
+      .catch(e => { this.error = e; });
+  }
+
+  write(position: number, chunk: ArrayBuffer) {
+    this.queue = this.queue.then(async () => {
+      if (this.error || !this.writable) return;
+      try {
+        await this.writable.write({ type: 'write', position, data: chunk });
+      } catch (e) {
+        this.error = e;
+      }
+    });
+  }
+
+  flushed() {
+    return this.queue;
+  }
+
+  async finish(): Promise<Blob> {
+    await this.queue;
+    if (this.error || !this.writable) {
+      await this.abort();
+      throw new Error(`Could not write to disk: ${(this.error as Error)?.message || 'storage unavailable'}`);
+    }
+    await this.writable.close();
+    return (await this.handle).getFile();
+  }
+
+  async abort() {
+    await this.queue;
+    try { await this.writable?.abort(); } catch (e) { /* already closed */ }
+    this.writable = null;
+  }
+
+  reset() {
+    this.queue = this.queue.then(async () => {
+      try {
+        await this.writable?.truncate(0);
+      } catch (e) {
+        this.error = e;
+      }
+    });
+  }
+
+  // Picked files are only committed by close(), so nothing is durable before finish()
+  committedBytes() {
+    return 0;
+  }
+}
+
+// Origin Private File System fallback for when the user hasn't picked a save location.
+// The file is split into segment files under orbit-received/<fileId>/: createWritable()
+// only persists data on close(), so closing each full segment is what makes the received
+// prefix survive a page reload. finish() stitches the segments into one disk-backed Blob.
+class OpfsSink implements ReceiveSink {
+  private dir: Promise<FileSystemDirectoryHandle>;
+  private current: { index: number; writable: FileSystemWritableFileStream; written: number } | null = null;
+  private queue: Promise<void> = Promise.resolve();
+  private error: unknown = null;
+  private committed: number;
+  // End of the furthest byte ever written, to know whether a segment may already hold data
+  private extent: number;
+
+  constructor(private fileId: string, private size: number, private mimeType: string, resumeFrom = 0) {
+    this.dir = getOpfsDirectory().then(root => root.getDirectoryHandle(fileId, { create: true }));
+    this.committed = resumeFrom - (resumeFrom % SEGMENT_SIZE);
+    this.extent = resumeFrom;
+  }
+
+  write(position: number, chunk: ArrayBuffer) {
+    this.queue = this.queue.then(async () => {
+      if (this.error) return;
+      try {
+        const index = Math.floor(position / SEGMENT_SIZE);
+        if (this.current?.index !== index) {
+          await this.openSegment(index);
+        }
+        const segment = this.current!;
+        const segmentOffset = position - index * SEGMENT_SIZE;
+        await segment.writable.write({ type: 'write', position: segmentOffset, data: chunk });
+        segment.written = Math.max(segment.written, segmentOffset + chunk.byteLength);
+        this.extent = Math.max(this.extent, position + chunk.byteLength);
+      } catch (e) {
+        this.error = e;
+      }
+    });
+  }
+
+  flushed() {
+    return this.queue;
+  }
+
+  // Bytes from the start of the file that would survive a reload
+  committedBytes() {
+    return this.committed;
+  }
+
+  async finish(): Promise<Blob> {
+    await this.queue;
+    if (this.error) {
+      await this.abort();
+      throw new Error(`Could not write to disk: ${(this.error as Error)?.message || 'storage unavailable'}`);
+    }
+    await this.closeSegment();
+
+    const dir = await this.dir;
+    const segments: File[] = [];
+    for (let index = 0; index * SEGMENT_SIZE < this.size; index++) {
+      segments.push(await (await dir.getFileHandle(String(index))).getFile());
+    }
+    return new Blob(segments, { type: this.mimeType });
+  }
+
+  async abort() {
+    await this.queue;
+    try { await this.current?.writable.abort(); } catch (e) { /* already closed */ }
+    this.current = null;
+    await purgeStoredFile(this.fileId);
+  }
+
+  reset() {
+    this.committed = 0;
+    this.queue = this.queue.then(async () => {
+      try { await this.current?.writable.abort(); } catch (e) { /* already closed */ }
+      this.current = null;
+      this.extent = 0;
+      this.error = null;
+      const root = await getOpfsDirectory();
+      try { await root.removeEntry(this.fileId, { recursive: true }); } catch (e) { /* nothing stored yet */ }
+      this.dir = root.getDirectoryHandle(this.fileId, { create: true });
+      await this.dir;
+    });
+  }
+
+  private async openSegment(index: number) {
+    await this.closeSegment();
+    const dir = await this.dir;
+    const handle = await dir.getFileHandle(String(index), { create: true });
+    const keepExistingData = index * SEGMENT_SIZE < this.extent;
+    this.current = { index, writable: await handle.createWritable({ keepExistingData }), written: 0 };
+  }
+
+  private async closeSegment() {
+    const segment = this.current;
+    if (!segment) return;
+    this.current = null;
+    await segment.writable.close();
+    const segmentEnd = segment.index * SEGMENT_SIZE + segment.written;
+    const isFull = segment.written === Math.min(SEGMENT_SIZE, this.size - segment.index * SEGMENT_SIZE);
+    if (isFull && this.committed === segment.index * SEGMENT_SIZE) {
+      this.committed = segmentEnd;
+    }
+  }
+}
+
+const getOpfsDirectory = async () => {
+  const root = await navigator.storage.getDirectory();
+  return root.getDirectoryHandle(OPFS_DIRECTORY, { create: true });
+};
+
+const supportsOpfsWritable = () =>
+  typeof navigator !== 'undefined' &&
+  typeof navigator.storage?.getDirectory === 'function' &&
+  typeof FileSystemFileHandle !== 'undefined' &&
+  'createWritable' in FileSystemFileHandle.prototype;
+
+// Picks where an incoming file goes. A user-chosen handle always wins; otherwise small
+// files stay in memory and large ones go to OPFS so memory use stays bounded.
+export const createReceiveSink = (fileId: string, size: number, mimeType: string, saveHandle?: FileSystemFileHandle | Promise<FileSystemFileHandle>): ReceiveSink => {
+  if (saveHandle) {
+    return new WritableFileSink(Promise.resolve(saveHandle));
+  }
+  if (size <= IN_MEMORY_LIMIT) {
+    return new MemorySink(size, mimeType);
+  }
+  if (supportsOpfsWritable()) {
+    return new OpfsSink(fileId, size, mimeType);
+  }
+  throw new Error('This browser cannot stream large files to disk. Try a Chromium or Firefox based browser.');
+};
+
+// Reopens the OPFS segments of a transfer interrupted by a reload, continuing at resumeFrom
+export const reopenReceiveSink = (fileId: string, size: number, mimeType: string, resumeFrom: number): ReceiveSink => {
+  return new OpfsSink(fileId, size, mimeType, resumeFrom);
+};
+
+// Removes a received file from OPFS once it is no longer needed
+export const purgeStoredFile = async (fileId: string) => {
+  if (!supportsOpfsWritable()) return;
+  try {
+    const dir = await getOpfsDirectory();
+    await dir.removeEntry(fileId, { recursive: true });
+  } catch (e) {
+    // Nothing stored for this file
+  }
+};
+
+// Drops OPFS data left behind by earlier sessions, except for transfers that can still resume
+export const purgeStaleFiles = async (keep: Set<string>) => {
+  if (!supportsOpfsWritable()) return;
+  try {
+    const dir = await getOpfsDirectory();
+    for await (const name of dir.keys()) {
+      if (!keep.has(name)) {
+        await dir.removeEntry(name, { recursive: true });
+      }
+    }
+  } catch (e) {
+    console.warn('Could not clean up stored files', e);
+  }
+};
@@ -0,0 +1,21 @@
+import { Recipient, TransferStatus } from '../types';
+
+// When recipients disagree, the card shows the first of these that any of them is in. A
+// recipient that didn't get the item outranks the ones that did, so a partial send never reads as done.
+const STATUS_PRECEDENCE = [
+  TransferStatus.UPLOADING,
+  TransferStatus.PAUSED,
+  TransferStatus.PENDING,
+  TransferStatus.INTERRUPTED,
+  TransferStatus.FAILED,
+  TransferStatus.CANCELLED,
+  TransferStatus.COMPLETED
+];
+
+// Card-level status and progress for an item sent to several peers
+export const summarizeRecipients = (recipients: Recipient[]) => {
+  const status = STATUS_PRECEDENCE.find(s => recipients.some(r => r.status === s)) ?? TransferStatus.PENDING;
+  const progress = recipients.length ? Math.round(recipients.reduce((n, r) => n + r.progress, 0) / recipients.length) : 0;
+  const errorMessage = recipients.find(r => r.status === status)?.errorMessage;
+  return { status, progress, errorMessage };
+};
@@ -0,0 +1,22 @@
+import { STORES, dbDelete, dbGetAll, dbPut } from './db';
+
+// What a receiver needs to pick an interrupted transfer back up after a reload.
+// Bytes before `offset` are on disk and verified; `chain` is the integrity hash chain at that point.
+export interface ResumeManifest {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+  fingerprint: string;
+  offset: number;
+  chain: string;
+  // Room peer that was sending it; older manifests without one resume from any peer
+  peerId?: string;
+  updatedAt: number;
+}
+
+export const saveManifest = (manifest: ResumeManifest) => dbPut(STORES.RESUME_MANIFESTS, manifest);
+
+export const loadManifests = () => dbGetAll<ResumeManifest>(STORES.RESUME_MANIFESTS);
+
+export const deleteManifest = (id: string) => dbDelete(STORES.RESUME_MANIFESTS, id);
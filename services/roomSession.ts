@@ -0,0 +1,189 @@
+import { SignalingTransport, SignalMessage, createSignalingTransport } from './signalingService';
+import { TransferTuning, WebRTCService } from './webrtcService';
+import { SecureLinkInfo } from './secureSession';
+import { DEFAULT_RTC_CONFIG } from './iceConfig';
+import { PairingTarget } from './pairingLink';
+import { randomAlphanumeric } from './pairingCrypto';
+import { PeerDevice } from './deviceIdentity';
+import type { ReceiverControl } from './transferReceiver';
+
+// A guest only talks to the host, and keys it by this until the host's real id is known
+export const HOST_PEER_ID = 'host';
+
+// Kept per tab so a reload rejoins under the same id and interrupted transfers can resume
+const loadPeerId = () => {
+  let id = sessionStorage.getItem('orbit_peer_id');
+  if (!id) {
+    id = randomAlphanumeric(8);
+    sessionStorage.setItem('orbit_peer_id', id);
+  }
+  return id;
+};
+
+// One remote peer's view of the room's shared signaling channel: outgoing signals are
+// stamped with our id and addressed to that peer
+class PeerTransport implements SignalingTransport {
+  private onMessageCallback: ((message: SignalMessage) => void) | null = null;
+
+  constructor(private shared: SignalingTransport, private localId: string, public remoteId?: string) {}
+
+  send(message: SignalMessage) {
+    this.shared.send({ ...message, from: this.localId, to: this.remoteId });
+  }
+
+  deliver(message: SignalMessage) {
+    this.onMessageCallback?.(message);
+  }
+
+  setOnMessage(callback: (message: SignalMessage) => void) {
+    this.onMessageCallback = callback;
+  }
+
+  // The shared channel belongs to the RoomSession
+  close() {}
+}
+
+// Star topology: the host keeps one WebRTCService (and so one RTCPeerConnection) per guest,
+// created when that guest announces itself. Guests keep a single connection to the host.
+export class RoomSession {
+  readonly peerId = loadPeerId();
+  private peers = new Map<string, { service: WebRTCService; transport: PeerTransport }>();
+  private manualPeerId: string | null = null;
+  private onPeerAddedCallback: ((peerId: string) => void) | null = null;
+  private onPeerRemovedCallback: ((peerId: string) => void) | null = null;
+  private onStatusChangeCallback: ((peerId: string, connected: boolean, state?: string, attempt?: number) => void) | null = null;
+  private onMessageCallback: ((peerId: string, data: any) => void) | null = null;
+  private onSecureCallback: ((peerId: string, info: SecureLinkInfo) => void) | null = null;
+  private onDeviceCallback: ((peerId: string, device: PeerDevice) => void) | null = null;
+  private onReceiverControlCallback: ((peerId: string, id: string, control: ReceiverControl) => void) | null = null;
+
+  private roomId: string;
+  private secret?: string;
+  private transport: SignalingTransport;
+
+  constructor(pairing: PairingTarget, private isHost: boolean, private rtcConfig: RTCConfiguration = DEFAULT_RTC_CONFIG, private tuning: TransferTuning = {}) {
+    this.roomId = pairing.roomId;
+    this.secret = pairing.secret;
+    this.transport = createSignalingTransport(pairing.roomId, pairing.signalingUrl, pairing.secret);
+    this.transport.setOnMessage(this.handleSignal.bind(this));
+  }
+
+  // Separate from the constructor so the callbacks are set before the first peer appears
+  start() {
+    if (!this.isHost) this.addPeer(HOST_PEER_ID);
+  }
+
+  private handleSignal(message: SignalMessage) {
+    if (message.to && message.to !== this.peerId) return;
+
+    if (this.isHost) {
+      // Unaddressed relay notices only matter to guests, which answer them with an announce
+      if (!message.from) return;
+      let peer = this.peers.get(message.from);
+      // Guests only announce when starting a connection, e.g. after a reload, so any old one is stale
+      if (message.type === 'PRESENCE_ANNOUNCE') {
+        this.removePeer(message.from);
+        peer = this.addPeer(message.from);
+      }
+      peer?.transport.deliver(message);
+      return;
+    }
+
+    const host = this.peers.get(HOST_PEER_ID);
+    if (!host) return;
+    if (message.type === 'PEER_JOINED') {
+      host.transport.deliver(message);
+      return;
+    }
+    // Other guests' announces, and anything before the host has introduced itself with an offer
+    if (!message.from || message.type === 'PRESENCE_ANNOUNCE') return;
+    if (!host.transport.remoteId) {
+      if (message.type !== 'OFFER') return;
+      host.transport.remoteId = message.from;
+    }
+    if (message.from === host.transport.remoteId) host.transport.deliver(message);
+  }
+
+  private addPeer(peerId: string) {
+    const transport = new PeerTransport(this.transport, this.peerId, peerId === HOST_PEER_ID ? undefined : peerId);
+    const service = new WebRTCService(this.roomId, this.isHost, transport, this.tuning, this.rtcConfig, this.secret);
+    const peer = { service, transport };
+
+    service.setOnStatusChange((connected, state, attempt) => {
+      if (this.peers.get(peerId) !== peer) return;
+      this.onStatusChangeCallback?.(peerId, connected, state, attempt);
+      // A guest that drops out (or that the service gave up reconnecting to) gets a fresh
+      // connection when it announces itself again
+      if (this.isHost && (state === 'closed' || state === 'failed' || state === 'auth-failed')) {
+        this.removePeer(peerId);
+      }
+    });
+    service.setOnMessage(data => this.onMessageCallback?.(peerId, data));
+    service.setOnSecure(info => this.onSecureCallback?.(peerId, info));
+    service.setOnDevice(device => this.onDeviceCallback?.(peerId, device));
+    service.setOnReceiverControl((id, control) => this.onReceiverControlCallback?.(peerId, id, control));
+
+    this.peers.set(peerId, peer);
+    this.onPeerAddedCallback?.(peerId);
+    return peer;
+  }
+
+  private removePeer(peerId: string) {
+    const peer = this.peers.get(peerId);
+    if (!peer) return;
+    this.peers.delete(peerId);
+    peer.service.destroy();
+    this.onPeerRemovedCallback?.(peerId);
+  }
+
+  getPeer(peerId: string): WebRTCService | undefined {
+    return this.peers.get(peerId)?.service;
+  }
+
+  get peerIds() {
+    return [...this.peers.keys()];
+  }
+
+  // Manual tokens bypass signaling, so on the host each manual pairing gets a peer of its own
+  manualPeer(): WebRTCService {
+    if (!this.isHost) return this.peers.get(HOST_PEER_ID)!.service;
+    const pending = this.manualPeerId ? this.peers.get(this.manualPeerId) : undefined;
+    if (pending && !pending.service.isOpen) return pending.service;
+    this.manualPeerId = `manual-${randomAlphanumeric(6)}`;
+    return this.addPeer(this.manualPeerId).service;
+  }
+
+  setOnPeerAdded(callback: (peerId: string) => void) {
+    this.onPeerAddedCallback = callback;
+  }
+
+  setOnPeerRemoved(callback: (peerId: string) => void) {
+    this.onPeerRemovedCallback = callback;
+  }
+
+  setOnStatusChange(callback: (peerId: string, connected: boolean, state?: string, attempt?: number) => void) {
+    this.onStatusChangeCallback = callback;
+  }
+
+  setOnMessage(callback: (peerId: string, data: any) => void) {
+    this.onMessageCallback = callback;
+  }
+
+  setOnSecure(callback: (peerId: string, info: SecureLinkInfo) => void) {
+    this.onSecureCallback = callback;
+  }
+
+  setOnDevice(callback: (peerId: string, device: PeerDevice) => void) {
+    this.onDeviceCallback = callback;
+  }
+
+  setOnReceiverControl(callback: (peerId: string, id: string, control: ReceiverControl) => void) {
+    this.onReceiverControlCallback = callback;
+  }
+
+  destroy() {
+    this.peers.forEach(peer => peer.service.destroy());
+    this.peers.clear();
+    this.transport.close();
+  }
+}
@@ -0,0 +1,337 @@
+import { bytesEqual, concatBytes, fromBase64, hmacSha256, toBase64 } from './pairingCrypto';
+
+// Manual pairing tokens carry only what a data-channel-only SDP needs (ICE credentials, DTLS
+// fingerprint, UDP candidates) packed into bytes, signed like relayed signals. The rest of the
+// SDP is boilerplate that decodeManualToken rebuilds.
+
+const TOKEN_PREFIX = 'orbit1.';
+const FORMAT_VERSION = 1;
+// Truncated HMAC; enough to tell a token for another room code from ours
+const MAC_LENGTH = 16;
+
+// QR alphanumeric mode fits 45 symbols in 5.5 bits each, so base45 beats base64 in byte mode
+const QR_PREFIX = 'ORBIT';
+// Tokens up to this size go into a single QR code (version 14 or so); larger ones are cycled
+const MAX_SINGLE_FRAME_BYTES = 300;
+const FRAME_BYTES = 150;
+
+const SETUP_ROLES = ['actpass', 'active', 'passive'];
+const HASH_FUNCTIONS = ['sha-256', 'sha-384', 'sha-512', 'sha-1'];
+const CANDIDATE_TYPES = ['host', 'srflx', 'prflx', 'relay'];
+
+enum AddressKind { IPv4, IPv6, MdnsUuid, Name }
+
+interface Candidate {
+  type: string;
+  address: string;
+  port: number;
+  priority: number;
+}
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  u8(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  u16(value: number) {
+    this.u8(value >>> 8);
+    this.u8(value);
+  }
+
+  u32(value: number) {
+    this.u16(value >>> 16);
+    this.u16(value);
+  }
+
+  raw(bytes: ArrayLike<number>) {
+    for (let i = 0; i < bytes.length; i++) this.u8(bytes[i]);
+  }
+
+  // Length-prefixed ASCII
+  text(value: string) {
+    if (value.length > 255) throw new Error('SDP attribute too long');
+    this.u8(value.length);
+    this.raw(Array.from(value, c => c.charCodeAt(0)));
+  }
+
+  finish() {
+    return Uint8Array.from(this.bytes);
+  }
+}
+
+class ByteReader {
+  private offset = 0;
+
+  constructor(private bytes: Uint8Array) {}
+
+  u8() {
+    if (this.offset >= this.bytes.byteLength) throw new Error('Truncated token');
+    return this.bytes[this.offset++];
+  }
+
+  u16() {
+    return (this.u8() << 8) | this.u8();
+  }
+
+  u32() {
+    return ((this.u16() << 16) | this.u16()) >>> 0;
+  }
+
+  raw(length: number) {
+    if (this.offset + length > this.bytes.byteLength) throw new Error('Truncated token');
+    const out = this.bytes.slice(this.offset, this.offset + length);
+    this.offset += length;
+    return out;
+  }
+
+  text() {
+    return String.fromCharCode(...this.raw(this.u8()));
+  }
+}
+
+const ipv6ToBytes = (address: string) => {
+  const [head, tail] = address.split('::');
+  const groups = (part?: string) => (part ? part.split(':') : []).map(group => parseInt(group, 16));
+  const start = groups(head);
+  const end = tail === undefined ? [] : groups(tail);
+  const all = [...start, ...new Array(8 - start.length - end.length).fill(0), ...end];
+  if (all.length !== 8 || all.some(group => isNaN(group) || group < 0 || group > 0xffff)) return null;
+  return all.flatMap(group => [group >>> 8, group & 0xff]);
+};
+
+const hex = (bytes: Uint8Array) => Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+
+const writeAddress = (writer: ByteWriter, address: string) => {
+  const ipv4 = address.split('.').map(Number);
+  if (ipv4.length === 4 && ipv4.every(part => Number.isInteger(part) && part >= 0 && part <= 255)) {
+    writer.u8(AddressKind.IPv4);
+    writer.raw(ipv4);
+    return;
+  }
+  const ipv6 = address.includes(':') ? ipv6ToBytes(address) : null;
+  if (ipv6) {
+    writer.u8(AddressKind.IPv6);
+    writer.raw(ipv6);
+    return;
+  }
+  // Browsers hide local addresses behind random <uuid>.local mDNS names
+  const uuid = /^([0-9a-f]{8})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{4})-([0-9a-f]{12})\.local$/i.exec(address);
+  if (uuid) {
+    writer.u8(AddressKind.MdnsUuid);
+    writer.raw(uuid.slice(1).join('').match(/../g)!.map(byte => parseInt(byte, 16)));
+    return;
+  }
+  writer.u8(AddressKind.Name);
+  writer.text(address);
+};
+
+const readAddress = (reader: ByteReader) => {
+  switch (reader.u8()) {
+    case AddressKind.IPv4:
+      return Array.from(reader.raw(4)).join('.');
+    case AddressKind.IPv6:
+      return hex(reader.raw(16)).match(/..../g)!.join(':');
+    case AddressKind.MdnsUuid: {
+      const h = hex(reader.raw(16));
+      return `${h.slice(0, 8)}-${h.slice(8, 12)}-${h.slice(12, 16)}-${h.slice(16, 20)}-${h.slice(20)}.local`;
+    }
+    case AddressKind.Name:
+      return reader.text();
+    default:
+      throw new Error('Unknown address kind');
+  }
+};
+
+const attribute = (lines: string[], name: string) =>
+  lines.find(line => line.startsWith(`a=${name}:`))?.slice(name.length + 3).trim();
+
+// TCP candidates are dropped: they need extra fields and UDP (direct or via TURN) is what connects
+const parseCandidates = (lines: string[]): Candidate[] => lines
+  .filter(line => line.startsWith('a=candidate:'))
+  .map(line => line.slice('a=candidate:'.length).split(/\s+/))
+  .filter(parts => parts[1] === '1' && parts[2]?.toLowerCase() === 'udp' && parts[6] === 'typ')
+  .map(parts => ({ priority: Number(parts[3]), address: parts[4], port: Number(parts[5]), type: parts[7] }))
+  .filter(candidate => CANDIDATE_TYPES.includes(candidate.type));
+
+const encodeDescription = (description: RTCSessionDescriptionInit) => {
+  if (description.type !== 'offer' && description.type !== 'answer') throw new Error('Unsupported description type');
+  const lines = (description.sdp || '').split(/\r?\n/);
+  const ufrag = attribute(lines, 'ice-ufrag');
+  const pwd = attribute(lines, 'ice-pwd');
+  const [hashFunction, fingerprint] = (attribute(lines, 'fingerprint') || '').split(/\s+/);
+  const setup = SETUP_ROLES.indexOf(attribute(lines, 'setup') || '');
+  const hashIndex = HASH_FUNCTIONS.indexOf((hashFunction || '').toLowerCase());
+  if (!ufrag || !pwd || !fingerprint || setup < 0 || hashIndex < 0) throw new Error('Session description is missing ICE or DTLS parameters');
+
+  const writer = new ByteWriter();
+  writer.u8((FORMAT_VERSION << 4) | (setup << 1) | (description.type === 'answer' ? 1 : 0));
+  writer.text(ufrag);
+  writer.text(pwd);
+  writer.u8(hashIndex);
+  const fingerprintBytes = fingerprint.split(':').map(byte => parseInt(byte, 16));
+  writer.u8(fingerprintBytes.length);
+  writer.raw(fingerprintBytes);
+  writer.text(attribute(lines, 'mid') || '0');
+  writer.u16(Number(attribute(lines, 'sctp-port')) || 5000);
+  writer.u32(Number(attribute(lines, 'max-message-size')) || 0);
+
+  const candidates = parseCandidates(lines).slice(0, 255);
+  writer.u8(candidates.length);
+  candidates.forEach(candidate => {
+    writer.u8(CANDIDATE_TYPES.indexOf(candidate.type));
+    writeAddress(writer, candidate.address);
+    writer.u16(candidate.port);
+    writer.u32(candidate.priority);
+  });
+  return writer.finish();
+};
+
+const decodeDescription = (bytes: Uint8Array): RTCSessionDescriptionInit => {
+  const reader = new ByteReader(bytes);
+  const header = reader.u8();
+  if (header >> 4 !== FORMAT_VERSION) throw new Error('Unsupported token version');
+  const type = header & 1 ? 'answer' : 'offer';
+  const setup = SETUP_ROLES[(header >> 1) & 3];
+  const ufrag = reader.text();
+  const pwd = reader.text();
+  const hashFunction = HASH_FUNCTIONS[reader.u8()];
+  const fingerprint = Array.from(reader.raw(reader.u8()), b => b.toString(16).padStart(2, '0').toUpperCase()).join(':');
+  const mid = reader.text();
+  const sctpPort = reader.u16();
+  const maxMessageSize = reader.u32();
+  const candidates: Candidate[] = [];
+  for (let count = reader.u8(); count > 0; count--) {
+    const candidateType = CANDIDATE_TYPES[reader.u8()];
+    const address = readAddress(reader);
+    candidates.push({ type: candidateType, address, port: reader.u16(), priority: reader.u32() });
+  }
+  if (!setup || !hashFunction || !candidates.every(c => c.type)) throw new Error('Malformed token');
+
+  const sdp = [
+    'v=0',
+    `o=- ${Date.now()} 2 IN IP4 127.0.0.1`,
+    's=-',
+    't=0 0',
+    `a=group:BUNDLE ${mid}`,
+    'a=msid-semantic: WMS',
+    'm=application 9 UDP/DTLS/SCTP webrtc-datachannel',
+    'c=IN IP4 0.0.0.0',
+    ...candidates.map((c, i) => `a=candidate:${i + 1} 1 udp ${c.priority} ${c.address} ${c.port} typ ${c.type}${c.type === 'host' ? '' : ' raddr 0.0.0.0 rport 0'}`),
+    'a=end-of-candidates',
+    `a=ice-ufrag:${ufrag}`,
+    `a=ice-pwd:${pwd}`,
+    'a=ice-options:trickle',
+    `a=fingerprint:${hashFunction} ${fingerprint}`,
+    `a=setup:${setup}`,
+    `a=mid:${mid}`,
+    `a=sctp-port:${sctpPort}`,
+    ...(maxMessageSize ? [`a=max-message-size:${maxMessageSize}`] : [])
+  ];
+  return { type, sdp: sdp.join('\r\n') + '\r\n' };
+};
+
+export const encodeManualToken = (description: RTCSessionDescriptionInit, pairingKey: Uint8Array) => {
+  const body = encodeDescription(description);
+  return TOKEN_PREFIX + toBase64(concatBytes(body, hmacSha256(pairingKey, body).subarray(0, MAC_LENGTH)));
+};
+
+export const decodeManualToken = (token: string, pairingKey: Uint8Array): RTCSessionDescriptionInit => {
+  let bytes: Uint8Array;
+  try {
+    if (!token.startsWith(TOKEN_PREFIX)) throw new Error('Not a token');
+    bytes = fromBase64(token.slice(TOKEN_PREFIX.length));
+    if (bytes.byteLength <= MAC_LENGTH) throw new Error('Truncated token');
+  } catch (e) {
+    throw new Error('Invalid Handshake Token');
+  }
+  const body = bytes.subarray(0, bytes.byteLength - MAC_LENGTH);
+  if (!bytesEqual(hmacSha256(pairingKey, body).subarray(0, MAC_LENGTH), bytes.subarray(body.byteLength))) {
+    throw new Error('Handshake token was not created for this room code');
+  }
+  try {
+    return decodeDescription(body);
+  } catch (e) {
+    throw new Error('Invalid Handshake Token');
+  }
+};
+
+// RFC 9285
+const BASE45 = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZ $%*+-./:';
+
+const toBase45 = (bytes: Uint8Array) => {
+  let out = '';
+  for (let i = 0; i < bytes.byteLength; i += 2) {
+    if (i + 1 < bytes.byteLength) {
+      const n = bytes[i] * 256 + bytes[i + 1];
+      out += BASE45[n % 45] + BASE45[Math.floor(n / 45) % 45] + BASE45[Math.floor(n / 2025)];
+    } else {
+      out += BASE45[bytes[i] % 45] + BASE45[Math.floor(bytes[i] / 45)];
+    }
+  }
+  return out;
+};
+
+const fromBase45 = (text: string) => {
+  const out: number[] = [];
+  for (let i = 0; i < text.length; i += 3) {
+    const digits = Array.from(text.slice(i, i + 3), c => BASE45.indexOf(c));
+    if (digits.length < 2 || digits.includes(-1)) throw new Error('Invalid base45');
+    const n = digits[0] + digits[1] * 45 + (digits.length === 3 ? digits[2] * 2025 : 0);
+    if (digits.length === 3) {
+      if (n > 0xffff) throw new Error('Invalid base45');
+      out.push(n >> 8, n & 0xff);
+    } else {
+      if (n > 0xff) throw new Error('Invalid base45');
+      out.push(n);
+    }
+  }
+  return Uint8Array.from(out);
+};
+
+// QR payloads for a token: "ORBIT:<base45>" when it fits one code, otherwise
+// "ORBIT<i>/<n>:<base45>" frames to show one after another
+export const manualTokenFrames = (token: string): string[] => {
+  const bytes = fromBase64(token.slice(TOKEN_PREFIX.length));
+  if (bytes.byteLength <= MAX_SINGLE_FRAME_BYTES) return [`${QR_PREFIX}:${toBase45(bytes)}`];
+  const count = Math.ceil(bytes.byteLength / FRAME_BYTES);
+  return Array.from({ length: count }, (_, i) =>
+    `${QR_PREFIX}${i + 1}/${count}:${toBase45(bytes.subarray(i * FRAME_BYTES, (i + 1) * FRAME_BYTES))}`);
+};
+
+export const isManualTokenFrame = (text: string) => text.startsWith(QR_PREFIX);
+
+// Collects scanned frames, in any order, until the whole token is there
+export class ManualTokenCollector {
+  private frames: (Uint8Array | undefined)[] = [];
+
+  // Returns the token once complete; frames of a different token start over
+  add(text: string): string | null {
+    const match = /^ORBIT(?:(\d+)\/(\d+))?:(.*)$/s.exec(text);
+    if (!match) return null;
+    let data: Uint8Array;
+    try {
+      data = fromBase45(match[3]);
+    } catch (e) {
+      return null;
+    }
+    if (!match[1]) return TOKEN_PREFIX + toBase64(data);
+
+    const index = Number(match[1]) - 1;
+    const count = Number(match[2]);
+    if (count < 1 || index < 0 || index >= count) return null;
+    if (this.frames.length !== count) this.frames = new Array(count).fill(undefined);
+    this.frames[index] = data;
+    if (this.frames.some(frame => !frame)) return null;
+    return TOKEN_PREFIX + toBase64(concatBytes(...(this.frames as Uint8Array[])));
+  }
+
+  get received() {
+    return this.frames.filter(Boolean).length;
+  }
+
+  get total() {
+    return this.frames.length;
+  }
+}
@@ -0,0 +1,211 @@
+import { bytesEqual, concatBytes, fromBase64, hkdf, hmacSha256, toBase64, utf8 } from './pairingCrypto';
+import { Sha256, toHex } from './sha256';
+
+export type SecurityMode = 'e2e' | 'dtls-only';
+
+export interface ShortAuthString {
+  digits: string;
+  emoji: string[];
+}
+
+export interface SecureLinkInfo {
+  mode: SecurityMode;
+  // Only with e2e: differs between the two screens if anyone sits in the middle
+  sas?: ShortAuthString;
+}
+
+interface Hello {
+  type: 'E2E_HELLO';
+  nonce: string;
+  // Raw P-256 public key; absent when this side has no WebCrypto (insecure context), and then
+  // only a peer without WebCrypto either will go on
+  publicKey?: string;
+}
+
+const SAS_EMOJI = [
+  '🐶', '🐱', '🦊', '🐻', '🐼', '🐨', '🐯', '🦁', '🐮', '🐷', '🐸', '🐵', '🐔', '🐧', '🐦', '🦉',
+  '🐴', '🦄', '🐝', '🦋', '🐢', '🐙', '🐬', '🐳', '🌵', '🌲', '🌻', '🍄', '🌙', '⭐', '🔥', '🌈',
+  '🍎', '🍋', '🍉', '🍇', '🍓', '🥑', '🥕', '🌽', '🍕', '🍩', '🎂', '☕', '⚽', '🏀', '🎸', '🎺',
+  '🎈', '🎁', '🔑', '🔒', '💡', '📷', '📚', '✏️', '✂️', '⏰', '🚀', '🚲', '⛵', '🏠', '⚓', '🎯'
+];
+
+const KIND_TEXT = 0;
+const KIND_BINARY = 1;
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+const supportsWebCrypto = () => typeof crypto !== 'undefined' && !!crypto.subtle;
+
+const helloDigest = (hello: Hello) => toHex(new Sha256().update(utf8(`${hello.nonce}|${hello.publicKey || ''}`)).digest());
+
+// Application-layer key exchange run over the data channel once it opens, on top of DTLS.
+//
+//   guest → host   E2E_COMMIT  hash of the guest's hello
+//   host  → guest  E2E_HELLO   host nonce + ephemeral ECDH public key
+//   guest → host   E2E_HELLO   the committed guest hello
+//   both           E2E_CONFIRM HMAC proving both derived the same keys
+//
+// Keys come from HKDF over the ECDH secret salted with the pairing key, so the confirm
+// step fails unless both sides know the room code. The commitment stops a man in the
+// middle from grinding key pairs until the SAS shown on both screens happens to match.
+export class SecureSession {
+  private nonce = crypto.getRandomValues(new Uint8Array(16));
+  private keyPair: CryptoKeyPair | null = null;
+  private hello: Promise<Hello> | null = null;
+  private peerCommit: string | null = null;
+  private confirmKey: Uint8Array | null = null;
+  private sendKey: CryptoKey | null = null;
+  private receiveKey: CryptoKey | null = null;
+  // Message counters per stream (data channel), so each channel decrypts independently
+  private sendCounters = new Map<number, number>();
+  private receiveCounters = new Map<number, number>();
+  private confirmSent = false;
+  private peerConfirmed = false;
+  private linkInfo: SecureLinkInfo | null = null;
+
+  constructor(private pairingKey: Uint8Array, private isHost: boolean) {}
+
+  get isEstablished() {
+    return this.confirmSent && this.peerConfirmed;
+  }
+
+  get isEncrypted() {
+    return this.linkInfo?.mode === 'e2e';
+  }
+
+  get info(): SecureLinkInfo | null {
+    return this.linkInfo;
+  }
+
+  // Unique to this handshake, for binding other proofs (e.g. device keys) to the link
+  get channelBinding(): Uint8Array {
+    return hmacSha256(this.confirmKey!, utf8('channel-binding'));
+  }
+
+  // Opening message, if this side speaks first
+  async start(): Promise<object[]> {
+    if (this.isHost) return [];
+    const hello = await this.ensureHello();
+    return [{ type: 'E2E_COMMIT', commit: helloDigest(hello) }];
+  }
+
+  // Returns the messages to send in reply; throws if the peer can't authenticate
+  async handleHandshake(msg: any): Promise<object[]> {
+    switch (msg.type) {
+      case 'E2E_COMMIT':
+        if (!this.isHost) throw new Error('Unexpected handshake message');
+        this.peerCommit = msg.commit;
+        return [await this.ensureHello()];
+      case 'E2E_HELLO': {
+        if (this.isHost) {
+          if (!this.peerCommit || helloDigest(msg) !== this.peerCommit) {
+            throw new Error('Handshake commitment mismatch');
+          }
+          return [await this.deriveKeys(msg)];
+        }
+        const hello = await this.ensureHello();
+        return [hello, await this.deriveKeys(msg)];
+      }
+      case 'E2E_CONFIRM': {
+        if (!this.confirmKey) throw new Error('Unexpected handshake message');
+        const expected = hmacSha256(this.confirmKey, utf8(this.isHost ? 'guest' : 'host'));
+        if (typeof msg.mac !== 'string' || !bytesEqual(expected, fromBase64(msg.mac))) {
+          throw new Error('Pairing code mismatch');
+        }
+        this.peerConfirmed = true;
+        return [];
+      }
+      default:
+        throw new Error('Unexpected handshake message');
+    }
+  }
+
+  // Counters are taken synchronously, so callers must deliver results in call order per stream
+  encrypt(data: string | ArrayBuffer, stream = 0): Promise<ArrayBuffer> {
+    const kind = typeof data === 'string' ? KIND_TEXT : KIND_BINARY;
+    const body = typeof data === 'string' ? textEncoder.encode(data) : new Uint8Array(data);
+    const iv = this.iv(this.isHost, stream, nextCounter(this.sendCounters, stream));
+    return crypto.subtle.encrypt({ name: 'AES-GCM', iv }, this.sendKey!, concatBytes(new Uint8Array([kind]), body));
+  }
+
+  async decrypt(data: ArrayBuffer, stream = 0): Promise<string | ArrayBuffer> {
+    const iv = this.iv(!this.isHost, stream, nextCounter(this.receiveCounters, stream));
+    const plain = new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, this.receiveKey!, data));
+    return plain[0] === KIND_TEXT ? textDecoder.decode(plain.subarray(1)) : plain.slice(1).buffer;
+  }
+
+  private ensureHello(): Promise<Hello> {
+    if (!this.hello) {
+      this.hello = (async () => {
+        let publicKey: string | undefined;
+        if (supportsWebCrypto()) {
+          try {
+            this.keyPair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, false, ['deriveBits']);
+            publicKey = toBase64(new Uint8Array(await crypto.subtle.exportKey('raw', this.keyPair.publicKey)));
+          } catch (e) {
+            this.keyPair = null;
+          }
+        }
+        return { type: 'E2E_HELLO', nonce: toBase64(this.nonce), publicKey };
+      })();
+    }
+    return this.hello;
+  }
+
+  private async deriveKeys(peer: Hello): Promise<object> {
+    const local = await this.ensureHello();
+    // Dropping the key from a hello would otherwise strip the encryption off without either side noticing
+    if (this.keyPair && !peer.publicKey) throw new Error('Peer skipped the key exchange');
+    const useE2E = !!this.keyPair;
+
+    let shared = new Uint8Array(0);
+    if (useE2E) {
+      const peerKey = await crypto.subtle.importKey('raw', fromBase64(peer.publicKey!), { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+      shared = new Uint8Array(await crypto.subtle.deriveBits({ name: 'ECDH', public: peerKey }, this.keyPair!.privateKey, 256));
+    }
+
+    const [hostHello, guestHello] = this.isHost ? [local, peer] : [peer, local];
+    const transcript = utf8(JSON.stringify([hostHello.nonce, hostHello.publicKey || '', guestHello.nonce, guestHello.publicKey || '']));
+    const okm = hkdf(concatBytes(shared, transcript), this.pairingKey, utf8('orbit-e2e-v1'), 102);
+
+    this.confirmKey = okm.slice(0, 32);
+    if (useE2E) {
+      const hostToGuest = okm.slice(32, 64);
+      const guestToHost = okm.slice(64, 96);
+      this.sendKey = await crypto.subtle.importKey('raw', this.isHost ? hostToGuest : guestToHost, 'AES-GCM', false, ['encrypt']);
+      this.receiveKey = await crypto.subtle.importKey('raw', this.isHost ? guestToHost : hostToGuest, 'AES-GCM', false, ['decrypt']);
+      this.linkInfo = { mode: 'e2e', sas: formatSas(okm.slice(96, 102)) };
+    } else {
+      this.linkInfo = { mode: 'dtls-only' };
+    }
+
+    this.confirmSent = true;
+    return { type: 'E2E_CONFIRM', mac: toBase64(hmacSha256(this.confirmKey, utf8(this.isHost ? 'host' : 'guest'))) };
+  }
+
+  // 96-bit GCM nonce: sender role byte, stream byte, 2 zero bytes, 64-bit message counter
+  private iv(fromHost: boolean, stream: number, counter: number) {
+    const iv = new Uint8Array(12);
+    const view = new DataView(iv.buffer);
+    view.setUint8(0, fromHost ? 1 : 2);
+    view.setUint8(1, stream);
+    view.setBigUint64(4, BigInt(counter));
+    return iv;
+  }
+}
+
+const nextCounter = (counters: Map<number, number>, stream: number) => {
+  const counter = counters.get(stream) || 0;
+  counters.set(stream, counter + 1);
+  return counter;
+};
+
+const formatSas = (bytes: Uint8Array): ShortAuthString => {
+  const number = ((bytes[0] << 16) | (bytes[1] << 8) | bytes[2]) % 1000000;
+  const bits = (bytes[3] << 16) | (bytes[4] << 8) | bytes[5];
+  return {
+    digits: number.toString().padStart(6, '0'),
+    emoji: [18, 12, 6, 0].map(shift => SAS_EMOJI[(bits >> shift) & 63])
+  };
+};
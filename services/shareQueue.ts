@@ -0,0 +1,53 @@
+// Items shared to Orbit from other apps wait here until a peer connects. public/sw.js
+// writes them into this cache when the Web Share Target POST comes in.
+const SHARE_CACHE = 'orbit-share-queue';
+
+// Either a shared file or shared text (title, text and URL joined by newlines)
+export interface QueuedShare {
+  key: string;
+  file?: File;
+  text?: string;
+}
+
+export const registerShareTarget = () => {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register('/sw.js').catch(e => console.warn('Service worker unavailable', e));
+};
+
+// Fires when the service worker queued new items while this page is open
+export const onShareQueued = (callback: () => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const listener = (event: MessageEvent) => {
+    if (event.data?.type === 'SHARE_QUEUED') callback();
+  };
+  navigator.serviceWorker.addEventListener('message', listener);
+  return () => navigator.serviceWorker.removeEventListener('message', listener);
+};
+
+export const loadQueuedShares = async (): Promise<QueuedShare[]> => {
+  if (typeof caches === 'undefined') return [];
+  const cache = await caches.open(SHARE_CACHE);
+  const requests = await cache.keys();
+  const shares = await Promise.all(requests.map(async (request): Promise<QueuedShare | null> => {
+    const response = await cache.match(request);
+    if (!response) return null;
+    if (response.headers.get('X-Orbit-Kind') === 'text') {
+      return { key: request.url, text: await response.text() };
+    }
+    const blob = await response.blob();
+    const name = decodeURIComponent(response.headers.get('X-Orbit-Name') || 'Shared item');
+    const lastModified = Number(response.headers.get('X-Orbit-Last-Modified')) || Date.now();
+    return { key: request.url, file: new File([blob], name, { type: blob.type, lastModified }) };
+  }));
+  return shares.filter((share): share is QueuedShare => share !== null);
+};
+
+// Resolves false if another window already took the item, so each share is sent once
+export const claimQueuedShare = async (key: string) => {
+  const cache = await caches.open(SHARE_CACHE);
+  return cache.delete(key);
+};
+
+// Text too long for a TEXT message is sent as a plain text file instead
+export const textFile = (text: string, label = 'Pasted text') =>
+  new File([text], `${label} ${new Date().toISOString().slice(0, 19).replace(/:/g, '-')}.txt`, { type: 'text/plain' });
@@ -0,0 +1,195 @@
+import { derivePairingKey, macHex, roomTag, verifyMacHex } from './pairingCrypto';
+import { toHex } from './sha256';
+
+export interface SignalMessage {
+  type: string;
+  data?: any;
+  // Peer ids in a multi-peer room, see RoomSession; signals without `to` are for everyone
+  from?: string;
+  to?: string;
+  // Wire envelope fields added by AuthenticatedTransport
+  payload?: string;
+  mac?: string;
+}
+
+// Anything that can carry OFFER/ANSWER/ICE_CANDIDATE/PRESENCE_ANNOUNCE between the peers of a room
+export interface SignalingTransport {
+  send(message: SignalMessage): void;
+  setOnMessage(callback: (message: SignalMessage) => void): void;
+  close(): void;
+}
+
+// Same-browser signaling: only reaches other tabs of the same profile
+export class BroadcastChannelTransport implements SignalingTransport {
+  private channel: BroadcastChannel;
+  private onMessageCallback: ((message: SignalMessage) => void) | null = null;
+
+  constructor(roomId: string) {
+    this.channel = new BroadcastChannel(`orbit_signal_${roomId}`);
+    this.channel.onmessage = (event) => {
+      this.onMessageCallback?.(event.data);
+    };
+  }
+
+  send(message: SignalMessage) {
+    this.channel.postMessage(message);
+  }
+
+  setOnMessage(callback: (message: SignalMessage) => void) {
+    this.onMessageCallback = callback;
+  }
+
+  close() {
+    this.channel.close();
+  }
+}
+
+// Cross-device signaling through the relay in server/relay.js (or any server speaking the same protocol)
+export class WebSocketTransport implements SignalingTransport {
+  private socket: WebSocket | null = null;
+  private onMessageCallback: ((message: SignalMessage) => void) | null = null;
+  private outbox: SignalMessage[] = [];
+  private closed = false;
+  private retryDelay = 1000;
+
+  constructor(private url: string, private roomId: string) {
+    this.connect();
+  }
+
+  private connect() {
+    const endpoint = `${this.url.replace(/\/+$/, '')}/${encodeURIComponent(this.roomId)}`;
+    const socket = new WebSocket(endpoint);
+    this.socket = socket;
+
+    socket.onopen = () => {
+      this.retryDelay = 1000;
+      // Flush anything queued while the relay was unreachable
+      const pending = this.outbox;
+      this.outbox = [];
+      pending.forEach(message => socket.send(JSON.stringify(message)));
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        this.onMessageCallback?.(JSON.parse(event.data));
+      } catch (e) {
+        console.warn('Malformed signal skipped');
+      }
+    };
+
+    socket.onclose = () => {
+      if (this.closed) return;
+      setTimeout(() => this.connect(), this.retryDelay);
+      this.retryDelay = Math.min(this.retryDelay * 2, 15000);
+    };
+  }
+
+  send(message: SignalMessage) {
+    if (this.socket && this.socket.readyState === WebSocket.OPEN) {
+      this.socket.send(JSON.stringify(message));
+    } else {
+      this.outbox.push(message);
+    }
+  }
+
+  setOnMessage(callback: (message: SignalMessage) => void) {
+    this.onMessageCallback = callback;
+  }
+
+  close() {
+    this.closed = true;
+    this.outbox = [];
+    this.socket?.close();
+  }
+}
+
+// Relay-generated notices that carry no peer data and so can't be signed
+const UNSIGNED_TYPES = new Set(['PEER_JOINED']);
+
+// Signed signals older or newer than this are dropped; leaves room for clocks that are a little off
+const SIGNAL_MAX_AGE_MS = 5 * 60 * 1000;
+
+// What the MAC covers: the sender's transport instance, its running count and the send time
+interface SignedBody {
+  session: string;
+  seq: number;
+  sentAt: number;
+  message: SignalMessage;
+}
+
+// Signs every outgoing signal with the pairing key and drops incoming ones that don't
+// verify, so only someone holding the room code can inject an OFFER or ICE candidate.
+// Each signal also carries its sender's session id and count, so one captured off the
+// relay can't be played back: a count already seen or a send time outside the window is dropped.
+export class AuthenticatedTransport implements SignalingTransport {
+  private onMessageCallback: ((message: SignalMessage) => void) | null = null;
+  private session = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  private seq = 0;
+  // Highest count seen per sender session, with when it was last heard from
+  private seen = new Map<string, { seq: number; at: number }>();
+
+  constructor(private inner: SignalingTransport, private key: Uint8Array) {
+    this.inner.setOnMessage(this.handleMessage.bind(this));
+  }
+
+  private handleMessage(envelope: SignalMessage) {
+    if (UNSIGNED_TYPES.has(envelope?.type)) {
+      this.onMessageCallback?.({ type: envelope.type });
+      return;
+    }
+    if (typeof envelope?.payload !== 'string' || !verifyMacHex(this.key, envelope.payload, envelope.mac)) {
+      console.warn('Unauthenticated signal dropped');
+      return;
+    }
+    let body: SignedBody;
+    try {
+      body = JSON.parse(envelope.payload);
+    } catch (e) {
+      console.warn('Malformed signal skipped');
+      return;
+    }
+    if (!this.isFresh(body)) {
+      console.warn('Stale or replayed signal dropped');
+      return;
+    }
+    this.onMessageCallback?.(body.message);
+  }
+
+  private isFresh(body: SignedBody) {
+    if (!body || typeof body.session !== 'string' || body.session === this.session) return false;
+    if (!Number.isSafeInteger(body.seq) || typeof body.sentAt !== 'number' || !body.message) return false;
+    const now = Date.now();
+    if (Math.abs(now - body.sentAt) > SIGNAL_MAX_AGE_MS) return false;
+    const last = this.seen.get(body.session);
+    if (last && body.seq <= last.seq) return false;
+    this.seen.set(body.session, { seq: body.seq, at: now });
+    // A session silent for longer than the window can only send signals that fail the time check
+    this.seen.forEach((entry, session) => {
+      if (now - entry.at > 2 * SIGNAL_MAX_AGE_MS) this.seen.delete(session);
+    });
+    return true;
+  }
+
+  send(message: SignalMessage) {
+    const body: SignedBody = { session: this.session, seq: ++this.seq, sentAt: Date.now(), message };
+    const payload = JSON.stringify(body);
+    this.inner.send({ type: 'SIGNED', payload, mac: macHex(this.key, payload) });
+  }
+
+  setOnMessage(callback: (message: SignalMessage) => void) {
+    this.onMessageCallback = callback;
+  }
+
+  close() {
+    this.inner.close();
+  }
+}
+
+// Uses the relay when SIGNALING_URL is configured (or a pairing link names one), otherwise falls back
+// to same-browser signaling. Either way the channel is named by a tag derived from the code (and the
+// link's secret), never the code itself.
+export const createSignalingTransport = (roomId: string, url: string | undefined = process.env.SIGNALING_URL, secret?: string): SignalingTransport => {
+  const tag = roomTag(roomId, secret);
+  const inner = url ? new WebSocketTransport(url, tag) : new BroadcastChannelTransport(tag);
+  return new AuthenticatedTransport(inner, derivePairingKey(roomId, secret));
+};
@@ -0,0 +1,22 @@
+const THUMBNAIL_SIZE = 96;
+// Decoding huge images just for a preview isn't worth the memory
+const MAX_SOURCE_SIZE = 20 * 1024 * 1024;
+
+// Small JPEG data URL sent along with a TRANSFER_OFFER so the receiver sees what it's accepting
+export const createThumbnail = async (file: Blob, size = THUMBNAIL_SIZE): Promise<string | undefined> => {
+  if (!file.type.startsWith('image/') || file.size > MAX_SOURCE_SIZE || typeof createImageBitmap !== 'function') {
+    return undefined;
+  }
+  try {
+    const bitmap = await createImageBitmap(file);
+    const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(bitmap.width * scale));
+    canvas.height = Math.max(1, Math.round(bitmap.height * scale));
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (e) {
+    return undefined;
+  }
+};
@@ -0,0 +1,136 @@
+export type QueueOrder = 'fifo' | 'priority';
+
+export type QueuePriority = 'high' | 'normal' | 'low';
+
+export interface QueueSettings {
+  order: QueueOrder;
+  // Items streaming at once; each still goes to all of its recipients in parallel
+  concurrency: number;
+}
+
+// An item waiting for a free slot, as the queue currently orders it
+export interface QueuedItem {
+  id: string;
+  priority: QueuePriority;
+}
+
+interface QueuedJob extends QueuedItem {
+  run: () => Promise<void>;
+}
+
+const STORAGE_KEY = 'orbit_queue_settings';
+const RANK: Record<QueuePriority, number> = { high: 0, normal: 1, low: 2 };
+
+export const MAX_CONCURRENCY = 4;
+
+export const DEFAULT_QUEUE_SETTINGS: QueueSettings = {
+  order: 'fifo',
+  concurrency: 1
+};
+
+export const loadQueueSettings = (): QueueSettings => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    return saved ? { ...DEFAULT_QUEUE_SETTINGS, ...JSON.parse(saved) } : DEFAULT_QUEUE_SETTINGS;
+  } catch (e) {
+    return DEFAULT_QUEUE_SETTINGS;
+  }
+};
+
+export const saveQueueSettings = (settings: QueueSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+// Outgoing items wait here until one of the sending slots frees up. In priority order a
+// higher priority goes ahead of everything lower; within a priority, and in FIFO order,
+// items start in the order they were added or moved into.
+export class TransferQueue {
+  private waiting: QueuedJob[] = [];
+  private running = new Set<string>();
+  private onChangeCallback: ((waiting: QueuedItem[]) => void) | null = null;
+
+  constructor(private settings: QueueSettings) {}
+
+  configure(settings: QueueSettings) {
+    this.settings = settings;
+    if (settings.order === 'priority') this.waiting.sort((a, b) => RANK[a.priority] - RANK[b.priority]);
+    this.changed();
+    this.drain();
+  }
+
+  // run() sends the item and settles once every recipient is done with it
+  enqueue(id: string, run: () => Promise<void>, priority: QueuePriority = 'normal') {
+    this.insert({ id, priority, run });
+    this.changed();
+    this.drain();
+  }
+
+  // Drops an item that hasn't started; false if it is already running or unknown
+  cancel(id: string) {
+    const index = this.waiting.findIndex(job => job.id === id);
+    if (index < 0) return false;
+    this.waiting.splice(index, 1);
+    this.changed();
+    return true;
+  }
+
+  // Swaps an item with its neighbour. In priority order, moving past an item of another
+  // priority takes that priority, so the new position holds when more items arrive.
+  move(id: string, direction: -1 | 1) {
+    const index = this.waiting.findIndex(job => job.id === id);
+    const target = index + direction;
+    if (index < 0 || target < 0 || target >= this.waiting.length) return;
+    const job = this.waiting[index];
+    if (this.settings.order === 'priority') job.priority = this.waiting[target].priority;
+    this.waiting[index] = this.waiting[target];
+    this.waiting[target] = job;
+    this.changed();
+  }
+
+  // Goes to the back of its new priority
+  setPriority(id: string, priority: QueuePriority) {
+    const index = this.waiting.findIndex(job => job.id === id);
+    if (index < 0) return;
+    const [job] = this.waiting.splice(index, 1);
+    if (this.settings.order === 'fifo') {
+      this.waiting.splice(index, 0, { ...job, priority });
+    } else {
+      this.insert({ ...job, priority });
+    }
+    this.changed();
+  }
+
+  setOnChange(callback: (waiting: QueuedItem[]) => void) {
+    this.onChangeCallback = callback;
+  }
+
+  private insert(job: QueuedJob) {
+    const before = this.settings.order === 'priority' ? this.waiting.findIndex(other => RANK[other.priority] > RANK[job.priority]) : -1;
+    if (before < 0) {
+      this.waiting.push(job);
+    } else {
+      this.waiting.splice(before, 0, job);
+    }
+  }
+
+  private drain() {
+    const slots = Math.min(MAX_CONCURRENCY, Math.max(1, this.settings.concurrency));
+    let started = false;
+    while (this.running.size < slots && this.waiting.length > 0) {
+      const job = this.waiting.shift()!;
+      this.running.add(job.id);
+      started = true;
+      job.run()
+        .catch(err => console.warn(`Queued transfer ${job.id} failed`, err))
+        .finally(() => {
+          this.running.delete(job.id);
+          this.drain();
+        });
+    }
+    if (started) this.changed();
+  }
+
+  private changed() {
+    this.onChangeCallback?.(this.waiting.map(({ id, priority }) => ({ id, priority })));
+  }
+}
@@ -0,0 +1,833 @@
+import { ReceiveSink, createReceiveSink, purgeStaleFiles, reopenReceiveSink } from './receiveSink';
+import { FrameFlag, decodeFrame } from './frameCodec';
+import { TransferHasher, groupOffsetFor } from './integrity';
+import { Sha256, toHex } from './sha256';
+import { deleteManifest, loadManifests, saveManifest } from './resumeStore';
+import { BundleFileInfo, getFileHandleAt, sanitizeRelativePath } from './bundle';
+import { buildZip } from './zipWriter';
+import { ENCODING_FLAG_MASK, Encoding, decompressChunk, frameEncoding, supportedEncodings } from './compression';
+import { FileChunk } from '../types';
+
+// Thumbnails are rendered as <img> sources, so only small inline images are accepted
+const MAX_THUMBNAIL_LENGTH = 64 * 1024;
+
+// How many times a range that failed verification is re-requested before giving up
+const MAX_REPAIR_ATTEMPTS = 3;
+
+// Frames are striped over several data channels and can overtake each other; this much
+// may be held back waiting for the gap before it to fill
+const MAX_EARLY_BYTES = 64 * 1024 * 1024;
+
+// How far the sender may run ahead of what has been written to the sink. Granted again in
+// TRANSFER_CREDITs once half of it is used, so a slow disk holds the sender back.
+export const FLOW_WINDOW = 16 * 1024 * 1024;
+
+// Sizes and offsets come from the peer, so anything that isn't a whole, non-negative byte count is refused
+export const isByteCount = (value: unknown): value is number => Number.isSafeInteger(value) && (value as number) >= 0;
+
+export interface IncomingFileInfo {
+  id: string;
+  name: string;
+  size: number;
+  type: string;
+}
+
+// Set by the receiving side and enforced by the sender; rate is in bytes per second, 0 for no limit
+export interface ReceiverControl {
+  paused: boolean;
+  rate: number;
+}
+
+// A TRANSFER_OFFER waiting for the user (or the auto-accept rules) to decide
+export interface IncomingOffer extends IncomingFileInfo {
+  // Room peer that sent the offer
+  peerId: string;
+  fingerprint: string;
+  thumbnail?: string;
+  // Set for BUNDLE_OFFERs; size is then the total of all files
+  bundle?: BundleFileInfo[];
+  // Compression the sender proposed, if this browser can decode it
+  encoding?: Encoding;
+}
+
+// An accepted bundle whose files arrive as individual offers tagged with its id
+interface IncomingBundle extends IncomingFileInfo {
+  peerId: string;
+  files: Map<string, BundleFileInfo>;
+  // Where the tree is rebuilt; without one the files are zipped once all have arrived
+  directory?: FileSystemDirectoryHandle;
+  completed: Map<string, Blob>;
+  completedBytes: number;
+}
+
+interface IncomingTransfer extends IncomingFileInfo {
+  // Unset for transfers restored from a manifest that predates peer ids, until a peer resumes them
+  peerId?: string;
+  fingerprint: string;
+  bundleId?: string;
+  sink: ReceiveSink;
+  receivedSize: number;
+  // Frames ahead of receivedSize, keyed by offset
+  early: Map<number, { data: ArrayBuffer; flags: number }>;
+  earlyBytes: number;
+  allReceived: boolean;
+  // Waiting for the sender to come back after the channel closed
+  interrupted: boolean;
+  hasher: TransferHasher;
+  // Group digests announced by the sender vs. computed locally, keyed by group offset
+  expectedGroups: Map<number, string>;
+  actualGroups: Map<number, string>;
+  repairs: Map<number, { length: number; received: number; hasher: Sha256 }>;
+  repairAttempts: Map<number, number>;
+  expectedFileDigest?: string;
+  // Hash chain values at verified offsets that may become the next persisted checkpoint
+  chainSnapshots: Map<number, string>;
+  checkpoint: number;
+  // Offset the sender may send up to, and whether a grant is waiting for the sink to flush
+  creditLimit: number;
+  crediting: boolean;
+}
+
+// Reassembles incoming transfers from offer/digest control messages and binary
+// frames, verifying every byte range against the sender's SHA-256 digests.
+// Nothing is streamed until an offer is accepted. In a multi-peer room every transfer is
+// bound to the peer that offered it, and frames or digests from anyone else are ignored.
+// Transfers outlive the connection: after a drop or reload they are offered back
+// to the sender with RESUME_REQUEST and continue from the last verified offset.
+export class TransferReceiver {
+  private transfers = new Map<string, IncomingTransfer>();
+  private offers = new Map<string, IncomingOffer>();
+  private bundles = new Map<string, IncomingBundle>();
+  // Pauses and limits asked of senders, by file or bundle id, so they can be repeated after a resume
+  private controls = new Map<string, ReceiverControl>();
+  // Compressed frames decode asynchronously; frames are still placed in the order they arrived
+  private frameQueue: Promise<void> = Promise.resolve();
+  private queuedFrames = 0;
+  private restored = false;
+  private onOfferCallback: ((offer: IncomingOffer) => void) | null = null;
+  private onIncomingCallback: ((file: IncomingFileInfo, peerId?: string) => void) | null = null;
+  private onProgressCallback: ((id: string, progress: number) => void) | null = null;
+  private onCompleteCallback: ((file: IncomingFileInfo, stored: Blob) => void) | null = null;
+  private onFailedCallback: ((id: string, message: string) => void) | null = null;
+  private onInterruptedCallback: ((id: string) => void) | null = null;
+  private onResumedCallback: ((id: string) => void) | null = null;
+  private onCancelledCallback: ((id: string) => void) | null = null;
+  private onBundleCompleteCallback: ((bundle: IncomingFileInfo, zip: Blob | null) => void) | null = null;
+
+  constructor(private sendControl: (message: object, peerId: string) => void) {}
+
+  setOnOffer(callback: (offer: IncomingOffer) => void) {
+    this.onOfferCallback = callback;
+  }
+
+  setOnIncoming(callback: (file: IncomingFileInfo, peerId?: string) => void) {
+    this.onIncomingCallback = callback;
+  }
+
+  setOnProgress(callback: (id: string, progress: number) => void) {
+    this.onProgressCallback = callback;
+  }
+
+  setOnComplete(callback: (file: IncomingFileInfo, stored: Blob) => void) {
+    this.onCompleteCallback = callback;
+  }
+
+  setOnFailed(callback: (id: string, message: string) => void) {
+    this.onFailedCallback = callback;
+  }
+
+  setOnInterrupted(callback: (id: string) => void) {
+    this.onInterruptedCallback = callback;
+  }
+
+  setOnResumed(callback: (id: string) => void) {
+    this.onResumedCallback = callback;
+  }
+
+  // The sender cancelled an offer or a transfer in progress; what arrived of it is already gone
+  setOnCancelled(callback: (id: string) => void) {
+    this.onCancelledCallback = callback;
+  }
+
+  // zip is null when the bundle was written into a directory the user picked
+  setOnBundleComplete(callback: (bundle: IncomingFileInfo, zip: Blob | null) => void) {
+    this.onBundleCompleteCallback = callback;
+  }
+
+  // Loads transfers interrupted by a previous page load. Safe to call more than once.
+  async restore() {
+    if (this.restored) return;
+    this.restored = true;
+
+    let manifests;
+    try {
+      manifests = await loadManifests();
+    } catch (e) {
+      console.warn('Resume data unavailable', e);
+      return;
+    }
+    await purgeStaleFiles(new Set(manifests.map(m => m.id)));
+
+    manifests.forEach(manifest => {
+      if (this.transfers.has(manifest.id)) return;
+      const { id, name, size, type, fingerprint, offset, chain, peerId } = manifest;
+      this.transfers.set(id, {
+        ...this.newTransfer({ id, name, size, type }, fingerprint, reopenReceiveSink(id, size, type, offset), peerId),
+        receivedSize: offset,
+        interrupted: true,
+        hasher: new TransferHasher(offset, chain),
+        checkpoint: offset
+      });
+      this.onIncomingCallback?.({ id, name, size, type }, peerId);
+      this.onProgressCallback?.(id, Math.round((offset / size) * 100));
+      this.onInterruptedCallback?.(id);
+    });
+  }
+
+  // Returns false for messages that aren't part of the receive protocol. One that can't be
+  // handled fails the transfer it belongs to; the channel carries on with the next message.
+  handleControl(msg: any, peerId: string): boolean {
+    try {
+      return this.applyControl(msg, peerId);
+    } catch (err) {
+      console.warn(`Could not handle ${msg.type}:`, err);
+      this.failFromMessage(msg.id, peerId, `Invalid ${msg.type} from sender`);
+      return true;
+    }
+  }
+
+  private failFromMessage(id: unknown, peerId: string, message: string) {
+    if (typeof id !== 'string') return;
+    const transfer = this.transferFrom(id, peerId) ?? this.resumableFrom(id, peerId);
+    if (transfer) {
+      this.fail(transfer, message);
+    } else if (this.offers.get(id)?.peerId === peerId) {
+      this.offers.delete(id);
+      this.onFailedCallback?.(id, message);
+    }
+  }
+
+  private applyControl(msg: any, peerId: string): boolean {
+    switch (msg.type) {
+      case 'TRANSFER_OFFER':
+        if (msg.bundleId) {
+          this.receiveBundleFile(msg, peerId);
+        } else {
+          this.receiveOffer(msg, peerId);
+        }
+        return true;
+      case 'BUNDLE_OFFER':
+        this.receiveBundleOffer(msg, peerId);
+        return true;
+      case 'OFFER_WITHDRAWN':
+        if (this.offers.get(msg.id)?.peerId === peerId) {
+          this.offers.delete(msg.id);
+          this.onFailedCallback?.(msg.id, 'Sender withdrew the file');
+        }
+        return true;
+      case 'CHUNK_DIGEST': {
+        const transfer = this.transferFrom(msg.id, peerId);
+        if (transfer) {
+          transfer.expectedGroups.set(msg.offset, msg.sha256);
+          this.verifyGroup(transfer, msg.offset, msg.length);
+        }
+        return true;
+      }
+      case 'FILE_DIGEST': {
+        const transfer = this.transferFrom(msg.id, peerId);
+        if (transfer) {
+          transfer.expectedFileDigest = msg.sha256;
+          this.tryComplete(transfer);
+        }
+        return true;
+      }
+      case 'RESUME_FROM': {
+        const transfer = this.resumableFrom(msg.id, peerId);
+        if (transfer) this.resumeTransfer(transfer, msg.offset, peerId);
+        return true;
+      }
+      case 'TRANSFER_CANCEL':
+        this.cancelFrom(msg.id, peerId);
+        return true;
+      case 'RESUME_DECLINED': {
+        const transfer = this.resumableFrom(msg.id, peerId);
+        if (transfer) this.fail(transfer, 'Sender discarded the interrupted transfer', false);
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  handleFrame(buffer: ArrayBuffer, peerId: string) {
+    let chunk;
+    try {
+      chunk = decodeFrame(buffer);
+    } catch (err) {
+      console.warn('Dropped malformed frame', err);
+      return;
+    }
+
+    const encoding = frameEncoding(chunk.flags);
+    const place = (frame: FileChunk) => {
+      try {
+        this.placeFrame(frame, peerId);
+      } catch (err) {
+        console.warn('Could not place frame', err);
+        this.failFromMessage(frame.fileId, peerId, 'Could not write a received chunk');
+      }
+    };
+    // Plain frames skip the queue unless compressed ones ahead of them are still decoding
+    if (!encoding && this.queuedFrames === 0) {
+      place(chunk);
+      return;
+    }
+    this.queuedFrames++;
+    const decoded = encoding ? this.inflateFrame(chunk, encoding, peerId) : Promise.resolve(chunk);
+    this.frameQueue = this.frameQueue
+      .then(() => decoded)
+      .then(frame => { if (frame) place(frame); })
+      .catch(err => console.warn('Dropped frame', err))
+      .finally(() => { this.queuedFrames--; });
+  }
+
+  private async inflateFrame(chunk: FileChunk, encoding: Encoding, peerId: string): Promise<FileChunk | null> {
+    const transferOf = () => this.transferFrom(chunk.fileId, peerId) ?? this.resumableFrom(chunk.fileId, peerId);
+    try {
+      const transfer = transferOf();
+      if (!transfer) return null;
+      if (!supportedEncodings().includes(encoding)) throw new Error(`${encoding} is not supported here`);
+      const data = await decompressChunk(chunk.data, encoding, transfer.size - chunk.offset);
+      return { ...chunk, data, flags: chunk.flags & ~ENCODING_FLAG_MASK };
+    } catch (err: any) {
+      const transfer = transferOf();
+      if (transfer) this.fail(transfer, `Could not decompress the stream: ${err.message}`);
+      return null;
+    }
+  }
+
+  private placeFrame(chunk: FileChunk, peerId: string) {
+    const transfer = this.transferFrom(chunk.fileId, peerId) ?? this.resumableFrom(chunk.fileId, peerId);
+    if (!transfer) return;
+
+    if (chunk.flags & FrameFlag.REPAIR) {
+      if (!transfer.interrupted) this.handleRepairChunk(transfer, chunk.offset, chunk.data);
+      return;
+    }
+
+    // Held until the transfer resumes or the frames before it arrive; after an
+    // interruption only frames of the resumed stream can come in
+    if (transfer.interrupted || chunk.offset > transfer.receivedSize) {
+      if (transfer.earlyBytes + chunk.data.byteLength > MAX_EARLY_BYTES) {
+        this.fail(transfer, `Stream out of sync at byte ${transfer.receivedSize}`);
+        return;
+      }
+      transfer.early.set(chunk.offset, { data: chunk.data, flags: chunk.flags });
+      transfer.earlyBytes += chunk.data.byteLength;
+      return;
+    }
+
+    if (chunk.offset !== transfer.receivedSize) {
+      this.fail(transfer, `Stream out of sync at byte ${transfer.receivedSize}`);
+      return;
+    }
+
+    this.acceptFrame(transfer, chunk.data, chunk.flags);
+    this.drainEarly(transfer);
+  }
+
+  private drainEarly(transfer: IncomingTransfer) {
+    let next;
+    while (this.transfers.get(transfer.id) === transfer && !transfer.interrupted && (next = transfer.early.get(transfer.receivedSize))) {
+      transfer.early.delete(transfer.receivedSize);
+      transfer.earlyBytes -= next.data.byteLength;
+      this.acceptFrame(transfer, next.data, next.flags);
+    }
+  }
+
+  private acceptFrame(transfer: IncomingTransfer, data: ArrayBuffer, flags: number) {
+    transfer.sink.write(transfer.receivedSize, data);
+    transfer.receivedSize += data.byteLength;
+    this.reportProgress(transfer);
+    this.grantCredit(transfer);
+
+    const groups = transfer.hasher.update(new Uint8Array(data));
+    if (flags & FrameFlag.FINAL) {
+      groups.push(...transfer.hasher.finish());
+      transfer.allReceived = true;
+    }
+    groups.forEach(group => {
+      transfer.actualGroups.set(group.offset, group.sha256);
+      this.verifyGroup(transfer, group.offset, group.length);
+    });
+    this.tryComplete(transfer);
+  }
+
+  // Tops up the sender's window once half of it is used, counting only bytes the sink has written
+  private grantCredit(transfer: IncomingTransfer) {
+    if (transfer.crediting || transfer.creditLimit >= transfer.size || transfer.creditLimit - transfer.receivedSize > FLOW_WINDOW / 2) return;
+    transfer.crediting = true;
+    const written = transfer.receivedSize;
+    transfer.sink.flushed().then(() => {
+      transfer.crediting = false;
+      if (this.transfers.get(transfer.id) !== transfer || transfer.interrupted || !transfer.peerId) return;
+      transfer.creditLimit = written + FLOW_WINDOW;
+      this.sendControl({ type: 'TRANSFER_CREDIT', id: transfer.id, limit: transfer.creditLimit }, transfer.peerId);
+    });
+  }
+
+  // Tells the sender to start streaming. The target is a file handle for single files
+  // or a directory handle to rebuild a bundle's tree in.
+  accept(id: string, target?: FileSystemHandle) {
+    const offer = this.offers.get(id);
+    if (!offer) return;
+    this.offers.delete(id);
+    const info: IncomingFileInfo = { id, name: offer.name, size: offer.size, type: offer.type };
+
+    if (offer.bundle) {
+      this.bundles.set(id, {
+        ...info,
+        peerId: offer.peerId,
+        files: new Map(offer.bundle.map(file => [file.id, file])),
+        directory: target?.kind === 'directory' ? target as FileSystemDirectoryHandle : undefined,
+        completed: new Map(),
+        completedBytes: 0
+      });
+      this.sendControl({ type: 'TRANSFER_ACCEPT', id }, offer.peerId);
+      return;
+    }
+
+    const saveHandle = target?.kind === 'file' ? target as FileSystemFileHandle : undefined;
+    this.startTransfer(info, offer.fingerprint, () => createReceiveSink(id, info.size, info.type, saveHandle), offer.peerId, undefined, offer.encoding);
+  }
+
+  decline(id: string) {
+    const offer = this.offers.get(id);
+    if (!offer) return;
+    this.offers.delete(id);
+    this.sendControl({ type: 'TRANSFER_DECLINE', id }, offer.peerId);
+  }
+
+  // A peer's data channel closed: keep everything received from it so far and wait for it to come back
+  interruptAll(peerId: string) {
+    // Unanswered offers can't be resumed; the sender offers them again if it wants to
+    this.offers.forEach(offer => {
+      if (offer.peerId !== peerId) return;
+      this.offers.delete(offer.id);
+      this.onFailedCallback?.(offer.id, 'Sender disconnected before you answered');
+    });
+    this.transfers.forEach(transfer => {
+      if (transfer.interrupted || transfer.peerId !== peerId) return;
+      transfer.interrupted = true;
+      transfer.early.clear();
+      transfer.earlyBytes = 0;
+      this.saveCheckpoint(transfer);
+      this.onInterruptedCallback?.(transfer.bundleId || transfer.id);
+    });
+  }
+
+  // Called once a new data channel to the peer is open
+  requestResumes(peerId: string) {
+    this.transfers.forEach(transfer => {
+      if (!transfer.interrupted || (transfer.peerId && transfer.peerId !== peerId)) return;
+      this.sendControl({
+        type: 'RESUME_REQUEST',
+        id: transfer.id,
+        name: transfer.name,
+        size: transfer.size,
+        mimeType: transfer.type,
+        fingerprint: transfer.fingerprint,
+        offset: this.resumeOffset(transfer),
+        chain: transfer.hasher.chainDigest,
+        window: FLOW_WINDOW,
+        encodings: supportedEncodings()
+      }, peerId);
+    });
+  }
+
+  // Pauses, resumes or limits an incoming file or bundle at the sender
+  control(id: string, control: ReceiverControl) {
+    const peerId = this.transfers.get(id)?.peerId ?? this.bundles.get(id)?.peerId;
+    if (!peerId) return;
+    this.controls.set(id, control);
+    this.sendControl({ type: 'RECEIVER_CONTROL', id, ...control }, peerId);
+  }
+
+  // The user removed the card for an incoming file
+  discard(id: string) {
+    if (this.offers.has(id)) {
+      this.decline(id);
+      return;
+    }
+    if (this.bundles.has(id)) {
+      this.failBundle(id, 'Receiver discarded the folder');
+      return;
+    }
+    const transfer = this.transfers.get(id);
+    if (transfer) this.fail(transfer, 'Receiver discarded the file');
+  }
+
+  // Unlike a failure nothing is reported back: the sender already stopped reading
+  private cancelFrom(id: string, peerId: string) {
+    if (this.offers.get(id)?.peerId === peerId) {
+      this.offers.delete(id);
+      this.onCancelledCallback?.(id);
+      return;
+    }
+    const bundle = this.bundles.get(id);
+    if (bundle?.peerId === peerId) {
+      this.bundles.delete(id);
+      this.controls.delete(id);
+      this.transfers.forEach(transfer => {
+        if (transfer.bundleId === id) this.drop(transfer);
+      });
+      this.onCancelledCallback?.(id);
+      return;
+    }
+    const transfer = this.transferFrom(id, peerId) || this.resumableFrom(id, peerId);
+    if (!transfer || transfer.bundleId) return;
+    this.drop(transfer);
+    this.onCancelledCallback?.(id);
+  }
+
+  // Forgets a transfer along with its partial data and resume checkpoint
+  private drop(transfer: IncomingTransfer) {
+    this.transfers.delete(transfer.id);
+    this.controls.delete(transfer.id);
+    deleteManifest(transfer.id).catch(() => {});
+    transfer.sink.abort();
+  }
+
+  // The transfer if it exists and that peer is sending it
+  private transferFrom(id: string, peerId: string) {
+    const transfer = this.transfers.get(id);
+    return transfer?.peerId === peerId ? transfer : undefined;
+  }
+
+  // Same, but an interrupted transfer without a known sender may be claimed by any peer
+  private resumableFrom(id: string, peerId: string) {
+    const transfer = this.transfers.get(id);
+    if (!transfer?.interrupted) return undefined;
+    return !transfer.peerId || transfer.peerId === peerId ? transfer : undefined;
+  }
+
+  private newTransfer(info: IncomingFileInfo, fingerprint: string, sink: ReceiveSink, peerId?: string): IncomingTransfer {
+    return {
+      ...info,
+      peerId,
+      fingerprint,
+      sink,
+      receivedSize: 0,
+      early: new Map(),
+      earlyBytes: 0,
+      allReceived: false,
+      interrupted: false,
+      hasher: new TransferHasher(),
+      expectedGroups: new Map(),
+      actualGroups: new Map(),
+      repairs: new Map(),
+      repairAttempts: new Map(),
+      chainSnapshots: new Map(),
+      checkpoint: 0,
+      creditLimit: FLOW_WINDOW,
+      crediting: false
+    };
+  }
+
+  private acceptedEncoding(encoding: unknown) {
+    return supportedEncodings().find(supported => supported === encoding);
+  }
+
+  private receiveOffer(msg: any, peerId: string) {
+    if (typeof msg.id !== 'string' || this.offers.has(msg.id) || this.transfers.has(msg.id)) return;
+    if (typeof msg.name !== 'string' || !msg.name || !isByteCount(msg.size)) {
+      this.sendControl({ type: 'TRANSFER_DECLINE', id: msg.id }, peerId);
+      return;
+    }
+    const thumbnail = typeof msg.thumbnail === 'string' && msg.thumbnail.startsWith('data:image/') && msg.thumbnail.length <= MAX_THUMBNAIL_LENGTH
+      ? msg.thumbnail
+      : undefined;
+    const offer: IncomingOffer = {
+      id: msg.id,
+      peerId,
+      name: msg.name,
+      size: msg.size,
+      type: typeof msg.mimeType === 'string' ? msg.mimeType : '',
+      fingerprint: msg.fingerprint || '',
+      thumbnail,
+      encoding: this.acceptedEncoding(msg.encoding)
+    };
+    this.offers.set(offer.id, offer);
+    this.onOfferCallback?.(offer);
+  }
+
+  private receiveBundleOffer(msg: any, peerId: string) {
+    if (typeof msg.id !== 'string' || !Array.isArray(msg.files) || this.offers.has(msg.id) || this.bundles.has(msg.id)) return;
+    if (typeof msg.name !== 'string' || !msg.name) {
+      this.sendControl({ type: 'TRANSFER_DECLINE', id: msg.id }, peerId);
+      return;
+    }
+    const files: BundleFileInfo[] = [];
+    const paths = new Set<string>();
+    for (const file of msg.files) {
+      const path = sanitizeRelativePath(file?.path);
+      if (!path || paths.has(path) || typeof file.id !== 'string' || !isByteCount(file.size)) {
+        this.sendControl({ type: 'TRANSFER_DECLINE', id: msg.id }, peerId);
+        return;
+      }
+      paths.add(path);
+      files.push({ id: file.id, path, size: file.size, type: typeof file.type === 'string' ? file.type : '' });
+    }
+
+    const offer: IncomingOffer = {
+      id: msg.id,
+      peerId,
+      name: msg.name,
+      size: files.reduce((n, file) => n + file.size, 0),
+      type: 'inode/directory',
+      fingerprint: '',
+      bundle: files
+    };
+    this.offers.set(offer.id, offer);
+    this.onOfferCallback?.(offer);
+  }
+
+  // Files of an accepted bundle are accepted without asking again; anything not in its manifest is refused
+  private receiveBundleFile(msg: any, peerId: string) {
+    const bundle = this.bundles.get(msg.bundleId);
+    const entry = bundle?.peerId === peerId ? bundle.files.get(msg.id) : undefined;
+    if (!bundle || !entry || entry.size !== msg.size || this.transfers.has(msg.id)) {
+      this.sendControl({ type: 'TRANSFER_DECLINE', id: msg.id }, peerId);
+      return;
+    }
+    const info: IncomingFileInfo = { id: entry.id, name: entry.path, size: entry.size, type: entry.type };
+    this.startTransfer(info, msg.fingerprint || '', () => bundle.directory
+      ? createReceiveSink(entry.id, entry.size, entry.type, getFileHandleAt(bundle.directory, entry.path))
+      : createReceiveSink(entry.id, entry.size, entry.type), peerId, bundle.id, this.acceptedEncoding(msg.encoding));
+  }
+
+  // The sender only compresses if the encoding it proposed comes back in TRANSFER_ACCEPT
+  private startTransfer(info: IncomingFileInfo, fingerprint: string, createSink: () => ReceiveSink, peerId: string, bundleId?: string, encoding?: Encoding) {
+    let sink: ReceiveSink;
+    try {
+      sink = createSink();
+    } catch (err: any) {
+      this.reportFailure(peerId, info.id, err.message, bundleId);
+      return;
+    }
+    this.transfers.set(info.id, { ...this.newTransfer(info, fingerprint, sink, peerId), bundleId });
+    this.sendControl({ type: 'TRANSFER_ACCEPT', id: info.id, window: FLOW_WINDOW, encoding }, peerId);
+  }
+
+  private reportProgress(transfer: IncomingTransfer) {
+    const bundle = transfer.bundleId ? this.bundles.get(transfer.bundleId) : undefined;
+    if (bundle) {
+      const received = bundle.completedBytes + transfer.receivedSize;
+      this.onProgressCallback?.(bundle.id, bundle.size ? Math.round((received / bundle.size) * 100) : 100);
+    } else {
+      this.onProgressCallback?.(transfer.id, Math.round((transfer.receivedSize / transfer.size) * 100));
+    }
+  }
+
+  private async completeBundleFile(bundleId: string, id: string, stored: Blob) {
+    const bundle = this.bundles.get(bundleId);
+    const entry = bundle?.files.get(id);
+    if (!bundle || !entry) return;
+    bundle.completed.set(id, stored);
+    bundle.completedBytes += entry.size;
+    this.onProgressCallback?.(bundle.id, bundle.size ? Math.round((bundle.completedBytes / bundle.size) * 100) : 100);
+    if (bundle.completed.size < bundle.files.size) return;
+
+    this.bundles.delete(bundleId);
+    this.controls.delete(bundleId);
+    const { name, size, type } = bundle;
+    if (bundle.directory) {
+      this.onBundleCompleteCallback?.({ id: bundleId, name, size, type }, null);
+      return;
+    }
+    try {
+      const zip = await buildZip([...bundle.files.values()].map(file => ({ path: file.path, blob: bundle.completed.get(file.id)! })));
+      this.onBundleCompleteCallback?.({ id: bundleId, name: `${name}.zip`, size: zip.size, type: zip.type }, zip);
+    } catch (err: any) {
+      this.onFailedCallback?.(bundleId, err.message);
+    }
+  }
+
+  // One bad file fails the whole bundle; files still in flight are cancelled with the sender
+  private failBundle(bundleId: string, message: string) {
+    const bundle = this.bundles.get(bundleId);
+    if (!bundle) return;
+    this.bundles.delete(bundleId);
+    this.controls.delete(bundleId);
+    this.transfers.forEach(transfer => {
+      if (transfer.bundleId !== bundleId) return;
+      this.drop(transfer);
+      if (transfer.peerId) this.sendControl({ type: 'TRANSFER_FAILED', id: transfer.id, reason: message }, transfer.peerId);
+    });
+    this.onFailedCallback?.(bundleId, message);
+  }
+
+  // Verified bytes are kept; anything after them is re-sent
+  private resumeOffset(transfer: IncomingTransfer) {
+    return Math.min(transfer.hasher.verifiedOffset, transfer.size);
+  }
+
+  // The sender either continues from the offset we asked for or starts over from 0
+  private resumeTransfer(transfer: IncomingTransfer, offset: number, peerId: string) {
+    const info: IncomingFileInfo = { id: transfer.id, name: transfer.name, size: transfer.size, type: transfer.type };
+    let resumed: IncomingTransfer;
+
+    if (offset > 0 && offset === this.resumeOffset(transfer)) {
+      resumed = {
+        ...this.newTransfer(info, transfer.fingerprint, transfer.sink, peerId),
+        receivedSize: offset,
+        allReceived: offset >= transfer.size,
+        hasher: new TransferHasher(offset, transfer.hasher.chainDigest),
+        checkpoint: transfer.checkpoint,
+        bundleId: transfer.bundleId
+      };
+    } else {
+      transfer.sink.reset();
+      deleteManifest(transfer.id).catch(() => {});
+      resumed = { ...this.newTransfer(info, transfer.fingerprint, transfer.sink, peerId), bundleId: transfer.bundleId };
+    }
+
+    // Frames of the resumed stream may have overtaken RESUME_FROM on another channel
+    resumed.early = transfer.early;
+    resumed.earlyBytes = transfer.earlyBytes;
+    resumed.creditLimit = resumed.receivedSize + FLOW_WINDOW;
+
+    this.transfers.set(transfer.id, resumed);
+    // The sender forgot any pause or limit along with the old connection
+    const controlId = transfer.bundleId || transfer.id;
+    const control = this.controls.get(controlId);
+    if (control) this.sendControl({ type: 'RECEIVER_CONTROL', id: controlId, ...control }, peerId);
+    this.reportProgress(resumed);
+    this.onResumedCallback?.(transfer.bundleId || transfer.id);
+    this.drainEarly(resumed);
+  }
+
+  private verifyGroup(transfer: IncomingTransfer, offset: number, length: number) {
+    const expected = transfer.expectedGroups.get(offset);
+    const actual = transfer.actualGroups.get(offset);
+    if (!expected || !actual) return;
+    if (expected === actual) {
+      this.commitGroup(transfer, offset, actual);
+    } else {
+      this.requestRepair(transfer, offset, length);
+    }
+  }
+
+  private commitGroup(transfer: IncomingTransfer, offset: number, digest: string) {
+    transfer.hasher.commitGroup(offset, digest);
+    transfer.chainSnapshots.set(this.resumeOffset(transfer), transfer.hasher.chainDigest);
+    this.saveCheckpoint(transfer);
+  }
+
+  // Persists the furthest verified offset whose bytes are also durably on disk
+  private saveCheckpoint(transfer: IncomingTransfer) {
+    const durable = transfer.sink.committedBytes();
+    let best = transfer.checkpoint;
+    transfer.chainSnapshots.forEach((_, offset) => {
+      if (offset <= durable && offset > best) best = offset;
+    });
+    if (best <= transfer.checkpoint) return;
+
+    const chain = transfer.chainSnapshots.get(best)!;
+    transfer.chainSnapshots.forEach((_, offset) => {
+      if (offset <= best) transfer.chainSnapshots.delete(offset);
+    });
+    transfer.checkpoint = best;
+    saveManifest({
+      id: transfer.id,
+      name: transfer.name,
+      size: transfer.size,
+      type: transfer.type,
+      fingerprint: transfer.fingerprint,
+      offset: best,
+      chain,
+      peerId: transfer.peerId,
+      updatedAt: Date.now()
+    }).catch(e => console.warn('Could not save resume point', e));
+  }
+
+  private requestRepair(transfer: IncomingTransfer, offset: number, length: number) {
+    const attempts = (transfer.repairAttempts.get(offset) || 0) + 1;
+    if (attempts > MAX_REPAIR_ATTEMPTS) {
+      this.fail(transfer, `Integrity check failed for bytes ${offset}-${offset + length - 1} after ${MAX_REPAIR_ATTEMPTS} retries`);
+      return;
+    }
+    transfer.repairAttempts.set(offset, attempts);
+    transfer.repairs.set(offset, { length, received: 0, hasher: new Sha256() });
+    if (transfer.peerId) this.sendControl({ type: 'RANGE_REQUEST', id: transfer.id, offset, length }, transfer.peerId);
+  }
+
+  private handleRepairChunk(transfer: IncomingTransfer, offset: number, data: ArrayBuffer) {
+    const groupOffset = groupOffsetFor(offset);
+    const repair = transfer.repairs.get(groupOffset);
+    if (!repair || offset !== groupOffset + repair.received) return;
+
+    transfer.sink.write(offset, data);
+    repair.hasher.update(new Uint8Array(data));
+    repair.received += data.byteLength;
+    if (repair.received < repair.length) return;
+
+    transfer.repairs.delete(groupOffset);
+    const digest = toHex(repair.hasher.digest());
+    transfer.actualGroups.set(groupOffset, digest);
+    if (digest !== transfer.expectedGroups.get(groupOffset)) {
+      this.requestRepair(transfer, groupOffset, repair.length);
+      return;
+    }
+    this.commitGroup(transfer, groupOffset, digest);
+    this.tryComplete(transfer);
+  }
+
+  private async tryComplete(transfer: IncomingTransfer) {
+    if (this.transfers.get(transfer.id) !== transfer) return;
+    if (!transfer.allReceived || !transfer.expectedFileDigest || transfer.repairs.size > 0) return;
+    if (transfer.size > 0 && transfer.hasher.verifiedOffset < transfer.size) return;
+
+    this.transfers.delete(transfer.id);
+    this.controls.delete(transfer.id);
+    deleteManifest(transfer.id).catch(() => {});
+    if (transfer.hasher.chainDigest !== transfer.expectedFileDigest) {
+      transfer.sink.abort();
+      this.reportFailure(transfer.peerId, transfer.id, 'File checksum mismatch: the received file does not match the original', transfer.bundleId);
+      return;
+    }
+
+    try {
+      const stored = await transfer.sink.finish();
+      if (transfer.peerId) this.sendControl({ type: 'TRANSFER_VERIFIED', id: transfer.id }, transfer.peerId);
+      const { id, name, size, type } = transfer;
+      if (transfer.bundleId) {
+        this.completeBundleFile(transfer.bundleId, id, stored);
+      } else {
+        this.onCompleteCallback?.({ id, name, size, type }, stored);
+      }
+    } catch (err: any) {
+      this.reportFailure(transfer.peerId, transfer.id, err.message, transfer.bundleId);
+    }
+  }
+
+  private fail(transfer: IncomingTransfer, message: string, notifySender = true) {
+    this.drop(transfer);
+    if (notifySender) {
+      this.reportFailure(transfer.peerId, transfer.id, message, transfer.bundleId);
+    } else if (transfer.bundleId) {
+      this.failBundle(transfer.bundleId, message);
+    } else {
+      this.onFailedCallback?.(transfer.id, message);
+    }
+  }
+
+  private reportFailure(peerId: string | undefined, id: string, message: string, bundleId?: string) {
+    if (peerId) this.sendControl({ type: 'TRANSFER_FAILED', id, reason: message }, peerId);
+    if (bundleId) {
+      this.failBundle(bundleId, message);
+    } else {
+      this.onFailedCallback?.(id, message);
+    }
+  }
+}
@@ -0,0 +1,105 @@
+// Progress samples older than this don't count towards the current rate
+const RATE_WINDOW_MS = 3000;
+// Progress is reported per chunk; samples closer together than this are merged
+const MIN_SAMPLE_GAP_MS = 100;
+
+export interface TransferStats {
+  // Bytes per second over the last few seconds, and since the meter started
+  currentRate: number;
+  averageRate: number;
+  // Seconds left at the current rate, once there is one
+  eta?: number;
+}
+
+// Turns a stream of "bytes moved so far" readings into throughput and ETA
+export class TransferMeter {
+  private samples: { time: number; bytes: number }[] = [];
+  private first: { time: number; bytes: number } | null = null;
+
+  sample(bytes: number, total: number): TransferStats {
+    const now = performance.now();
+    if (!this.first) this.first = { time: now, bytes };
+    const last = this.samples[this.samples.length - 1];
+    if (last && now - last.time < MIN_SAMPLE_GAP_MS) {
+      last.bytes = bytes;
+    } else {
+      this.samples.push({ time: now, bytes });
+    }
+    while (this.samples.length > 2 && now - this.samples[0].time > RATE_WINDOW_MS) this.samples.shift();
+
+    const oldest = this.samples[0];
+    const currentRate = now > oldest.time ? (bytes - oldest.bytes) / ((now - oldest.time) / 1000) : 0;
+    return {
+      currentRate,
+      averageRate: this.averageRate,
+      eta: currentRate > 0 ? Math.max(0, total - bytes) / currentRate : undefined
+    };
+  }
+
+  get averageRate() {
+    const last = this.samples[this.samples.length - 1];
+    if (!this.first || !last || last.time <= this.first.time) return 0;
+    return (last.bytes - this.first.bytes) / ((last.time - this.first.time) / 1000);
+  }
+}
+
+export type CandidateType = 'host' | 'srflx' | 'prflx' | 'relay';
+
+// The selected ICE candidate pair of a peer connection, sampled from getStats()
+export interface ConnectionStats {
+  // Milliseconds, as measured by STUN consent checks
+  rtt?: number;
+  localType?: CandidateType;
+  remoteType?: CandidateType;
+  // udp or tcp
+  protocol?: string;
+  bytesSent: number;
+  bytesReceived: number;
+  // Bytes per second since the previous sample, when one was passed in
+  sendRate?: number;
+  receiveRate?: number;
+  timestamp: number;
+}
+
+export const readConnectionStats = async (peerConnection: RTCPeerConnection, previous?: ConnectionStats): Promise<ConnectionStats | null> => {
+  const report = await peerConnection.getStats();
+  let pair: any = null;
+  report.forEach(stat => {
+    if (stat.type === 'transport' && stat.selectedCandidatePairId) pair = report.get(stat.selectedCandidatePairId);
+  });
+  // Firefox has no transport stats and flags the pair itself
+  if (!pair) {
+    report.forEach(stat => {
+      if (!pair && stat.type === 'candidate-pair' && (stat.selected || (stat.nominated && stat.state === 'succeeded'))) pair = stat;
+    });
+  }
+  if (!pair) return null;
+
+  const local = report.get(pair.localCandidateId);
+  const remote = report.get(pair.remoteCandidateId);
+  const timestamp = performance.now();
+  const bytesSent = pair.bytesSent ?? 0;
+  const bytesReceived = pair.bytesReceived ?? 0;
+  const elapsed = previous ? (timestamp - previous.timestamp) / 1000 : 0;
+
+  return {
+    rtt: typeof pair.currentRoundTripTime === 'number' ? pair.currentRoundTripTime * 1000 : undefined,
+    localType: local?.candidateType,
+    remoteType: remote?.candidateType,
+    protocol: local?.protocol,
+    bytesSent,
+    bytesReceived,
+    sendRate: elapsed > 0 ? Math.max(0, bytesSent - previous!.bytesSent) / elapsed : undefined,
+    receiveRate: elapsed > 0 ? Math.max(0, bytesReceived - previous!.bytesReceived) / elapsed : undefined,
+    timestamp
+  };
+};
+
+// Which way the bytes take; a relayed path is usually the reason a transfer is slow
+export const describePath = (stats?: ConnectionStats) => {
+  if (!stats?.localType || !stats.remoteType) return 'Unknown';
+  const types = [stats.localType, stats.remoteType];
+  if (types.includes('relay')) return 'Relayed (TURN)';
+  if (types.includes('srflx') || types.includes('prflx')) return 'Direct through NAT';
+  return 'Direct on local network';
+};
@@ -0,0 +1,20 @@
+import { STORES, dbDelete, dbGetAll, dbPut } from './db';
+
+// A device this one has paired with and chose to remember, keyed by its fingerprint.
+// The room it is rejoined in is derived from both keys, so only the public key is kept.
+export interface TrustedDevice {
+  id: string;
+  name: string;
+  publicKey: string;
+  // Relay the pairing went through, so a reconnect signals the same way
+  signalingUrl?: string;
+  addedAt: number;
+  lastSeen: number;
+}
+
+export const saveTrustedDevice = (device: TrustedDevice) => dbPut(STORES.TRUSTED_DEVICES, device);
+
+export const loadTrustedDevices = async () =>
+  (await dbGetAll<TrustedDevice>(STORES.TRUSTED_DEVICES)).sort((a, b) => b.lastSeen - a.lastSeen);
+
+export const forgetTrustedDevice = (id: string) => dbDelete(STORES.TRUSTED_DEVICES, id);
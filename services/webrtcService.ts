@@ -1,28 +1,170 @@
 
+import { SignalingTransport, SignalMessage, createSignalingTransport } from './signalingService';
+import { FrameFlag, encodeFrame } from './frameCodec';
+import { GroupDigest, TransferHasher, fileFingerprint } from './integrity';
+import { SecureLinkInfo, SecureSession } from './secureSession';
+import { derivePairingKey } from './pairingCrypto';
+import { decodeManualToken, encodeManualToken } from './sdpCodec';
+import { OutgoingBundleEntry } from './bundle';
+import { AdaptiveChunkSizer, readChunks } from './chunking';
+import { ConnectionStats, readConnectionStats } from './transferStats';
+import { DEFAULT_RTC_CONFIG } from './iceConfig';
+import { PeerDevice, canVerify, deviceHello, deviceProof, loadDeviceIdentity, peerFromHello, verifyDeviceProof } from './deviceIdentity';
+import { RateLimiter } from './rateLimiter';
+import { ENCODING_FLAGS, Encoding, MIN_COMPRESSED_CHUNK, chooseEncoding, compressChunk, supportedEncodings } from './compression';
+import type { ReceiverControl } from './transferReceiver';
+
+// Starting chunk size, and the fixed one for repairs or with adaptive sizing off
 const CHUNK_SIZE = 16384;
+const MAX_CHUNK_SIZE = 256 * 1024;
+// Room for the frame header (up to a 255-byte id) and the encryption envelope
+const FRAME_OVERHEAD = 512;
+// Per channel: senders stop above the high mark and continue once it drains to the low one
+const HIGH_WATER_MARK = 4 * 1024 * 1024;
+const LOW_WATER_MARK = 1024 * 1024;
+const DATA_CHANNEL_COUNT = 4;
+const MAX_DATA_CHANNELS = 16;
+// TEXT goes out as a single data channel message; anything longer should be sent as a file
+export const MAX_TEXT_LENGTH = 64 * 1024;
+
+// When an established link drops: ICE restarts first, then a fresh peer connection, with the
+// delay between attempts doubling up to the cap
+const RECONNECT_BASE_DELAY_MS = 1000;
+const RECONNECT_MAX_DELAY_MS = 16000;
+const ICE_RESTART_ATTEMPTS = 3;
+const MAX_RECONNECT_ATTEMPTS = 8;
+// Manual tokens wait for candidate gathering so they carry every candidate, but not forever
+const ICE_GATHERING_TIMEOUT_MS = 3000;
+
+export interface TransferTuning {
+  // Channels that file chunks are striped across, next to the control channel; 0 sends them over it
+  dataChannels?: number;
+  // false pins chunks to CHUNK_SIZE instead of sizing them from the measured rate
+  adaptiveChunks?: boolean;
+  // Upload cap shared with every other connection that is given the same limiter
+  bandwidth?: RateLimiter;
+  // false sends every file raw instead of compressing the ones that look compressible
+  compression?: boolean;
+}
+
+// One data channel with its own encryption stream and send/receive ordering
+interface Lane {
+  channel: RTCDataChannel;
+  // GCM nonce stream: 0 for the control channel, 1.. for data channels
+  stream: number;
+  // Encryption is async, so outgoing messages are chained to keep them in order
+  sendQueue: Promise<void>;
+  queuedBytes: number;
+  // Same for incoming, so the handshake and decryption see messages in arrival order
+  receiveQueue: Promise<void>;
+}
+
+interface OutgoingTransfer {
+  file: File;
+  offset: number;
+  hasher: TransferHasher;
+  onProgress: (progress: number) => void;
+  isPaused: boolean;
+  // Wakes the paused send loop
+  wake?: () => void;
+  // Set for files of a bundle; receiver controls for the bundle apply to them
+  bundleId?: string;
+  // Offset the receiver has given credit up to; Infinity for receivers without flow control
+  creditLimit: number;
+  // Chunks are compressed with this when it makes them smaller
+  encoding?: Encoding;
+  // All bytes sent; kept around to serve RANGE_REQUESTs until the receiver verifies the file
+  isSent: boolean;
+  resolve: () => void;
+  reject: (error: Error) => void;
+}
+
+interface AcceptReply {
+  window?: number;
+  encoding?: string;
+}
+
+// The data channel closed mid-transfer; the receiver can ask to resume once reconnected
+export class TransferInterruptedError extends Error {
+  constructor() {
+    super('Connection lost. The transfer will resume when the peer reconnects.');
+    this.name = 'TransferInterruptedError';
+  }
+}
+
+// The user stopped the transfer on this side; the receiver was told to drop it
+export class TransferCancelledError extends Error {
+  constructor() {
+    super('Cancelled');
+    this.name = 'TransferCancelledError';
+  }
+}
 
 export class WebRTCService {
   private peerConnection: RTCPeerConnection | null = null;
   private dataChannel: RTCDataChannel | null = null;
   private onMessageCallback: ((data: any) => void) | null = null;
-  private onStatusChangeCallback: ((connected: boolean, state?: string) => void) | null = null;
-  private signalChannel: BroadcastChannel;
+  private onStatusChangeCallback: ((connected: boolean, state?: string, attempt?: number) => void) | null = null;
+  private onSecureCallback: ((info: SecureLinkInfo) => void) | null = null;
+  private onDeviceCallback: ((device: PeerDevice) => void) | null = null;
+  private signalChannel: SignalingTransport;
   private roomId: string;
   private isHost: boolean;
+  private pairingKey: Uint8Array;
+
+  private tuning: TransferTuning;
+  // ICE servers and transport policy, from the network settings
+  private rtcConfig: RTCConfiguration;
+
+  // Handshake state for the current control channel; a new channel starts a new session
+  private secure: SecureSession | null = null;
+  private authFailed = false;
+  // The peer's device while its key proof is outstanding
+  private unprovenDevice: PeerDevice | null = null;
+  // The control channel carries handshake, control messages and repairs; file frames are
+  // striped across the data lanes
+  private controlLane: Lane | null = null;
+  private dataLanes: Lane[] = [];
   
   // Track active transfers to support pausing and resuming
-  private activeTransfers = new Map<string, { 
-    file: File, 
-    offset: number, 
-    onProgress: (progress: number) => void,
-    isPaused: boolean 
-  }>();
-
-  constructor(roomId: string, isHost: boolean) {
+  private activeTransfers = new Map<string, OutgoingTransfer>();
+
+  // Offers sent with sendFile that the receiver hasn't answered yet
+  // accept() gets the receiver's TRANSFER_ACCEPT: its flow control window and the encoding it agreed to, if any
+  private pendingOffers = new Map<string, { accept: (reply: AcceptReply) => void; reject: (error: Error) => void }>();
+  // Bundles being streamed, with the id of the file currently being offered or sent
+  private activeBundles = new Map<string, string>();
+  // Pauses and rate limits the receiver asked for, by file or bundle id
+  private receiverControls = new Map<string, { paused: boolean; limiter: RateLimiter }>();
+  private onReceiverControlCallback: ((id: string, control: ReceiverControl) => void) | null = null;
+
+  // Senders waiting for a channel buffer to drain; several transfers may be streaming at once
+  private bufferWaiters: (() => void)[] = [];
+
+  // Reconnection only kicks in once the link has been up; failing to connect at all is reported as-is
+  private wasConnected = false;
+  private reconnectAttempt = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  // Send loops hold while the link is down rather than queue data that may never go out
+  private linkDown = false;
+  private destroyed = false;
+
+  constructor(
+    roomId: string,
+    isHost: boolean,
+    signalChannel: SignalingTransport = createSignalingTransport(roomId),
+    tuning: TransferTuning = {},
+    rtcConfig: RTCConfiguration = DEFAULT_RTC_CONFIG,
+    // From a pairing link; has to match the one the signaling transport was created with
+    secret?: string
+  ) {
     this.roomId = roomId;
     this.isHost = isHost;
-    this.signalChannel = new BroadcastChannel(`orbit_signal_${roomId}`);
-    this.signalChannel.onmessage = this.handleSignal.bind(this);
+    this.tuning = tuning;
+    this.rtcConfig = rtcConfig;
+    this.pairingKey = derivePairingKey(roomId, secret);
+    this.signalChannel = signalChannel;
+    this.signalChannel.setOnMessage(this.handleSignal.bind(this));
     
     this.initPeerConnection();
     
@@ -30,13 +172,13 @@ export class WebRTCService {
       this.setupDataChannel();
     } else {
       setTimeout(() => {
-        this.signalChannel.postMessage({ type: 'PRESENCE_ANNOUNCE' });
+        this.signalChannel.send({ type: 'PRESENCE_ANNOUNCE' });
       }, 1000);
     }
   }
 
-  private async handleSignal(event: MessageEvent) {
-    const { type, data } = event.data;
+  private async handleSignal(message: SignalMessage) {
+    const { type, data } = message;
     if (!this.peerConnection) return;
 
     switch (type) {
@@ -45,12 +187,23 @@ export class WebRTCService {
           this.createOffer();
         }
         break;
+      case 'PEER_JOINED':
+        // Relay-only: someone connected after our initial announce went out. The host waits
+        // for the newcomer's own announce, which is what gives it a connection of its own.
+        if (!this.isHost && !this.isOpen) {
+          this.signalChannel.send({ type: 'PRESENCE_ANNOUNCE' });
+        }
+        break;
       case 'OFFER':
         if (!this.isHost) await this.handleOffer(data);
         break;
       case 'ANSWER':
         if (this.isHost) await this.handleAnswer(data);
         break;
+      case 'RESET':
+        // The host gave up on ICE restarts and is about to offer a fresh connection
+        if (!this.isHost && this.wasConnected) this.resetLink();
+        break;
       case 'ICE_CANDIDATE':
         await this.handleIceCandidate(data);
         break;
@@ -58,62 +211,397 @@ export class WebRTCService {
   }
 
   private initPeerConnection() {
-    this.peerConnection = new RTCPeerConnection({
-      iceServers: [
-        { urls: 'stun:stun.l.google.com:19302' },
-        { urls: 'stun:stun1.l.google.com:19302' },
-        { urls: 'stun:stun2.l.google.com:19302' }
-      ]
-    });
+    this.peerConnection = new RTCPeerConnection(this.rtcConfig);
 
     this.peerConnection.onicecandidate = (event) => {
       if (event.candidate) {
-        this.signalChannel.postMessage({ type: 'ICE_CANDIDATE', data: event.candidate.toJSON() });
+        this.signalChannel.send({ type: 'ICE_CANDIDATE', data: event.candidate.toJSON() });
       }
     };
 
     this.peerConnection.ondatachannel = (event) => {
-      this.setDataChannel(event.channel);
+      const lane = /^orbitData-(\d+)$/.exec(event.channel.label);
+      const stream = lane ? Number(lane[1]) : 0;
+      if (stream >= 1 && stream <= MAX_DATA_CHANNELS) {
+        this.addDataLane(event.channel, stream);
+      } else {
+        this.setDataChannel(event.channel);
+      }
     };
 
     this.peerConnection.onconnectionstatechange = () => {
       const state = this.peerConnection?.connectionState;
       if (state === 'connected') {
-        this.onStatusChangeCallback?.(true, state);
+        this.wasConnected = true;
+        if (this.reconnectAttempt > 0 || this.linkDown) {
+          this.linkRestored();
+        } else {
+          // Not usable until the data channel handshake has authenticated the peer
+          this.onStatusChangeCallback?.(false, 'securing');
+        }
+      } else if ((state === 'disconnected' || state === 'failed') && this.wasConnected) {
+        this.linkLost();
       } else if (state === 'disconnected' || state === 'failed' || state === 'closed') {
         this.onStatusChangeCallback?.(false, state);
       }
     };
   }
 
+  private linkLost() {
+    if (this.linkDown || this.destroyed) return;
+    this.linkDown = true;
+    this.onStatusChangeCallback?.(false, 'reconnecting', this.reconnectAttempt + 1);
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** this.reconnectAttempt, RECONNECT_MAX_DELAY_MS);
+    this.reconnectTimer = setTimeout(() => this.reconnect(), delay);
+  }
+
+  // The host drives recovery since it's the offerer; a guest answers whatever the host sends
+  // and only keeps count, so it gives up around the same time
+  private async reconnect() {
+    this.reconnectTimer = null;
+    if (this.destroyed || !this.linkDown) return;
+    this.reconnectAttempt++;
+    if (this.reconnectAttempt > MAX_RECONNECT_ATTEMPTS) {
+      this.linkDown = false;
+      this.interruptTransfers();
+      this.onStatusChangeCallback?.(false, 'failed');
+      return;
+    }
+
+    if (this.isHost) {
+      try {
+        if (this.reconnectAttempt <= ICE_RESTART_ATTEMPTS) {
+          this.onStatusChangeCallback?.(false, 'reconnecting', this.reconnectAttempt);
+          await this.restartIce();
+        } else {
+          await this.renegotiate();
+        }
+      } catch (error) {
+        console.warn('Reconnect attempt failed:', error);
+      }
+    } else {
+      this.onStatusChangeCallback?.(false, 'reconnecting', this.reconnectAttempt);
+    }
+    if (this.linkDown && !this.destroyed) this.scheduleReconnect();
+  }
+
+  private linkRestored() {
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.reconnectAttempt = 0;
+    this.linkDown = false;
+    this.activeTransfers.forEach(transfer => transfer.wake?.());
+    // After an ICE restart the channels survived; a fresh connection still has its handshake to run
+    this.onStatusChangeCallback?.(this.isOpen, this.isOpen ? 'open' : 'securing');
+  }
+
+  // Keeps the channels and the encryption session; only the network path is renegotiated
+  private async restartIce() {
+    const peerConnection = this.peerConnection;
+    if (!peerConnection) return;
+    // An earlier restart offer that was never answered would block this one
+    if (peerConnection.signalingState === 'have-local-offer') {
+      await peerConnection.setLocalDescription({ type: 'rollback' });
+    }
+    const offer = await peerConnection.createOffer({ iceRestart: true });
+    await peerConnection.setLocalDescription(offer);
+    this.signalChannel.send({ type: 'OFFER', data: offer });
+  }
+
+  private async renegotiate() {
+    this.signalChannel.send({ type: 'RESET' });
+    this.resetLink();
+    await this.createOffer();
+  }
+
+  // Replaces the peer connection with a fresh one. Transfers on the old channels are interrupted
+  // and pick up again through RESUME_REQUEST once the new channel's handshake is done.
+  private resetLink() {
+    const peerConnection = this.peerConnection;
+    const channels = [this.dataChannel, ...this.dataLanes.map(lane => lane.channel)];
+    this.dataChannel = null;
+    this.controlLane = null;
+    this.dataLanes = [];
+    this.secure = null;
+    this.interruptTransfers();
+    channels.forEach(channel => channel?.close());
+    if (peerConnection) {
+      peerConnection.onconnectionstatechange = null;
+      peerConnection.onicecandidate = null;
+      peerConnection.ondatachannel = null;
+      peerConnection.close();
+    }
+    this.onStatusChangeCallback?.(false, 'renegotiating', Math.max(this.reconnectAttempt, 1));
+
+    this.initPeerConnection();
+    if (this.isHost) this.setupDataChannel();
+  }
+
+  private interruptTransfers() {
+    const transfers = [...this.activeTransfers.values()];
+    this.activeTransfers.clear();
+    transfers.forEach(transfer => {
+      transfer.reject(new TransferInterruptedError());
+      transfer.wake?.();
+    });
+    this.wakeSenders();
+    this.pendingOffers.forEach(offer => offer.reject(new Error('Connection lost before the receiver answered.')));
+    this.pendingOffers.clear();
+  }
+
   private setupDataChannel() {
     if (!this.peerConnection) return;
     const channel = this.peerConnection.createDataChannel('orbitTransfer', { ordered: true });
     this.setDataChannel(channel);
+    const lanes = Math.min(this.tuning.dataChannels ?? DATA_CHANNEL_COUNT, MAX_DATA_CHANNELS);
+    for (let stream = 1; stream <= lanes; stream++) {
+      this.addDataLane(this.peerConnection.createDataChannel(`orbitData-${stream}`, { ordered: true }), stream);
+    }
+  }
+
+  private newLane(channel: RTCDataChannel, stream: number): Lane {
+    channel.binaryType = 'arraybuffer';
+    channel.bufferedAmountLowThreshold = LOW_WATER_MARK;
+    channel.onbufferedamountlow = () => this.wakeSenders();
+    return { channel, stream, sendQueue: Promise.resolve(), queuedBytes: 0, receiveQueue: Promise.resolve() };
+  }
+
+  private wakeSenders() {
+    const waiters = this.bufferWaiters;
+    this.bufferWaiters = [];
+    waiters.forEach(resume => resume());
+  }
+
+  private addDataLane(channel: RTCDataChannel, stream: number) {
+    const lane = this.newLane(channel, stream);
+    this.dataLanes.push(lane);
+    channel.onmessage = (event) => {
+      lane.receiveQueue = lane.receiveQueue
+        .then(() => this.handleLaneData(lane, event.data))
+        .catch(error => console.warn('Dropped a frame that could not be handled:', error));
+    };
+    channel.onclose = () => {
+      this.dataLanes = this.dataLanes.filter(l => l !== lane);
+      this.wakeSenders();
+    };
   }
 
   private setDataChannel(channel: RTCDataChannel) {
+    const session = new SecureSession(this.pairingKey, this.isHost);
+    const lane = this.newLane(channel, 0);
     this.dataChannel = channel;
-    this.dataChannel.binaryType = 'arraybuffer';
-    
+    this.controlLane = lane;
+    this.secure = session;
+    this.authFailed = false;
+    this.unprovenDevice = null;
+
     this.dataChannel.onmessage = (event) => {
-      this.onMessageCallback?.(event.data);
+      lane.receiveQueue = lane.receiveQueue
+        .then(() => this.handleIncoming(channel, session, event.data))
+        .catch(error => console.warn('Dropped a message that could not be handled:', error));
     };
 
     this.dataChannel.onopen = () => {
-      this.onStatusChangeCallback?.(true, 'open');
+      this.onStatusChangeCallback?.(false, 'securing');
+      session.start()
+        .then(messages => messages.forEach(message => channel.send(JSON.stringify(message))))
+        .catch(error => this.failHandshake(channel, error));
     };
 
     this.dataChannel.onclose = () => {
-      this.onStatusChangeCallback?.(false, 'closed');
+      // Channels retired by resetLink have already been dealt with
+      if (channel !== this.dataChannel) return;
+      // SCTP timed out while reconnecting, so only a fresh connection can bring it back
+      if (this.linkDown && !this.authFailed) {
+        if (this.isHost) this.renegotiate().catch(error => console.warn('Reconnect attempt failed:', error));
+        else this.resetLink();
+        return;
+      }
+      this.interruptTransfers();
+      this.onStatusChangeCallback?.(false, this.authFailed ? 'auth-failed' : 'closed');
     };
   }
 
+  private async handleIncoming(channel: RTCDataChannel, session: SecureSession, data: string | ArrayBuffer) {
+    if (session !== this.secure) return;
+
+    if (!session.isEstablished) {
+      // Handshake messages are plain JSON; nothing else is accepted until it completes
+      try {
+        if (typeof data !== 'string') throw new Error('Unexpected data before handshake');
+        const replies = await session.handleHandshake(JSON.parse(data));
+        replies.forEach(message => channel.send(JSON.stringify(message)));
+      } catch (error) {
+        this.failHandshake(channel, error);
+        return;
+      }
+      if (session.isEstablished) {
+        this.onSecureCallback?.(session.info!);
+        this.onStatusChangeCallback?.(true, 'open');
+        this.introduceDevice(session);
+      }
+      return;
+    }
+
+    if (session.isEncrypted) {
+      try {
+        if (typeof data === 'string') throw new Error('Unencrypted message');
+        data = await session.decrypt(data);
+      } catch (error) {
+        // A forged or replayed message means the stream can't be trusted any more
+        this.failHandshake(channel, error);
+        return;
+      }
+    }
+
+    if (typeof data === 'string') {
+      try {
+        if (await this.handleDeviceMessage(session, data)) return;
+      } catch (error) {
+        this.failHandshake(channel, error);
+        return;
+      }
+      if (this.handleTransferReply(data)) return;
+    }
+    this.onMessageCallback?.(data);
+  }
+
+  private async introduceDevice(session: SecureSession) {
+    try {
+      const identity = await loadDeviceIdentity();
+      if (session === this.secure) this.sendControl(deviceHello(identity));
+    } catch (error) {
+      console.warn('Device identity unavailable:', error);
+    }
+  }
+
+  // Both sides send a HELLO with their DeviceInfo; when both have device keys, each then
+  // proves it holds its private key with a DEVICE_PROOF bound to this secure session
+  private async handleDeviceMessage(session: SecureSession, raw: string): Promise<boolean> {
+    let msg;
+    try {
+      msg = JSON.parse(raw);
+    } catch (e) {
+      return false;
+    }
+    switch (msg.type) {
+      case 'HELLO': {
+        const device = peerFromHello(msg);
+        if (!device) throw new Error('Invalid device introduction');
+        const identity = await loadDeviceIdentity();
+        if (!canVerify(identity, device)) {
+          this.onDeviceCallback?.(device);
+          return true;
+        }
+        this.unprovenDevice = device;
+        this.sendControl({ type: 'DEVICE_PROOF', mac: await deviceProof(identity, device, session.channelBinding, this.isHost) });
+        return true;
+      }
+      case 'DEVICE_PROOF': {
+        const device = this.unprovenDevice;
+        if (!device) return true;
+        const identity = await loadDeviceIdentity();
+        if (!await verifyDeviceProof(identity, device, session.channelBinding, this.isHost, msg.mac)) {
+          throw new Error('Device key proof failed');
+        }
+        this.unprovenDevice = null;
+        this.onDeviceCallback?.({ ...device, verified: true });
+        return true;
+      }
+      default:
+        return false;
+    }
+  }
+
+  // Data channels only ever carry file frames, and only once the handshake is done
+  private async handleLaneData(lane: Lane, data: string | ArrayBuffer) {
+    const session = this.secure;
+    try {
+      if (!session?.isEstablished || typeof data === 'string') throw new Error('Unexpected message on a data channel');
+      if (session.isEncrypted) data = await session.decrypt(data, lane.stream);
+      if (typeof data === 'string') throw new Error('Unexpected message on a data channel');
+    } catch (error) {
+      if (this.dataChannel) this.failHandshake(this.dataChannel, error);
+      return;
+    }
+    this.onMessageCallback?.(data);
+  }
+
+  private failHandshake(channel: RTCDataChannel, error: unknown) {
+    console.warn('Secure channel rejected:', error);
+    this.authFailed = true;
+    channel.close();
+  }
+
+  private send(data: string | ArrayBuffer) {
+    if (this.controlLane) this.sendOn(this.controlLane, data);
+  }
+
+  // Every data channel message goes through here so it gets encrypted when the link supports it
+  private sendOn(lane: Lane, data: string | ArrayBuffer) {
+    const { channel } = lane;
+    const session = this.secure;
+    if (channel.readyState !== 'open' || !session?.isEstablished) return;
+
+    if (!session.isEncrypted) {
+      if (typeof data === 'string') channel.send(data);
+      else channel.send(data);
+      return;
+    }
+
+    const size = typeof data === 'string' ? data.length : data.byteLength;
+    const sealed = session.encrypt(data, lane.stream);
+    lane.queuedBytes += size;
+    lane.sendQueue = lane.sendQueue.then(async () => {
+      try {
+        const payload = await sealed;
+        if (channel.readyState === 'open') channel.send(payload);
+      } catch (error) {
+        console.warn('Encryption failed:', error);
+      } finally {
+        lane.queuedBytes -= size;
+        if (this.laneBuffered(lane) <= LOW_WATER_MARK) this.wakeSenders();
+      }
+    });
+  }
+
+  // Data channel open and the handshake done
+  get isOpen() {
+    return this.dataChannel?.readyState === 'open' && !!this.secure?.isEstablished;
+  }
+
+  // Bytes handed to a lane that haven't drained to the network yet
+  private laneBuffered(lane: Lane) {
+    return lane.channel.bufferedAmount + lane.queuedBytes;
+  }
+
+  // Largest chunk the peer accepts in one message, per the negotiated SCTP limit
+  private get maxChunkSize() {
+    const limit = this.peerConnection?.sctp?.maxMessageSize || 65536;
+    return Math.max(CHUNK_SIZE, Math.min(MAX_CHUNK_SIZE, limit - FRAME_OVERHEAD));
+  }
+
+  // The least loaded open data lane once one has room; the control channel if there are none
+  private async acquireLane(): Promise<Lane | null> {
+    for (;;) {
+      const open = this.dataLanes.filter(lane => lane.channel.readyState === 'open');
+      const lanes = open.length > 0 ? open : this.controlLane?.channel.readyState === 'open' ? [this.controlLane] : [];
+      if (lanes.length === 0) return null;
+      const lane = lanes.reduce((best, candidate) => this.laneBuffered(candidate) < this.laneBuffered(best) ? candidate : best);
+      if (this.laneBuffered(lane) <= HIGH_WATER_MARK) return lane;
+      await new Promise<void>(resolve => this.bufferWaiters.push(resolve));
+    }
+  }
+
   async createOffer(): Promise<string | null> {
     if (!this.peerConnection || !this.isHost) return null;
     const offer = await this.peerConnection.createOffer();
     await this.peerConnection.setLocalDescription(offer);
-    this.signalChannel.postMessage({ type: 'OFFER', data: offer });
+    this.signalChannel.send({ type: 'OFFER', data: offer });
     return JSON.stringify(offer);
   }
 
@@ -122,12 +610,13 @@ export class WebRTCService {
     await this.peerConnection.setRemoteDescription(new RTCSessionDescription(offer));
     const answer = await this.peerConnection.createAnswer();
     await this.peerConnection.setLocalDescription(answer);
-    this.signalChannel.postMessage({ type: 'ANSWER', data: answer });
+    this.signalChannel.send({ type: 'ANSWER', data: answer });
     return JSON.stringify(answer);
   }
 
   async handleAnswer(answer: RTCSessionDescriptionInit) {
-    if (!this.peerConnection) return;
+    // Answers to restart offers that were rolled back or superseded
+    if (!this.peerConnection || this.peerConnection.signalingState !== 'have-local-offer') return;
     await this.peerConnection.setRemoteDescription(new RTCSessionDescription(answer));
   }
 
@@ -140,42 +629,171 @@ export class WebRTCService {
     }
   }
 
+  // Selected candidate pair, RTT and byte counters; pass the previous sample to get rates
+  getConnectionStats(previous?: ConnectionStats): Promise<ConnectionStats | null> {
+    return this.peerConnection ? readConnectionStats(this.peerConnection, previous) : Promise.resolve(null);
+  }
+
+  // With no signaling to trickle candidates over, they have to be in the token itself
+  private waitForIceGathering() {
+    const peerConnection = this.peerConnection;
+    if (!peerConnection || peerConnection.iceGatheringState === 'complete') return Promise.resolve();
+    return new Promise<void>(resolve => {
+      const finish = () => {
+        clearTimeout(timer);
+        peerConnection.removeEventListener('icegatheringstatechange', onChange);
+        resolve();
+      };
+      const onChange = () => {
+        if (peerConnection.iceGatheringState === 'complete') finish();
+      };
+      const timer = setTimeout(finish, ICE_GATHERING_TIMEOUT_MS);
+      peerConnection.addEventListener('icegatheringstatechange', onChange);
+    });
+  }
+
+  // Tokens are compact enough for a QR code (see sdpCodec) and signed with the pairing key like
+  // relayed signals, so a token from someone who doesn't know the room code is rejected
   async getManualToken(): Promise<string> {
     if (!this.peerConnection?.localDescription) {
       await this.createOffer();
     }
-    return btoa(JSON.stringify(this.peerConnection?.localDescription));
+    await this.waitForIceGathering();
+    const description = this.peerConnection?.localDescription;
+    if (!description) throw new Error("Nothing to share yet. Scan or paste the host's token first.");
+    return encodeManualToken(description, this.pairingKey);
   }
 
   async processManualToken(token: string) {
+    const data = decodeManualToken(token.trim(), this.pairingKey);
+    if (data.type === 'offer') {
+      await this.handleOffer(data);
+    } else if (data.type === 'answer') {
+      await this.handleAnswer(data);
+    }
+  }
+
+  // Receiver replies that concern our outgoing transfers; everything else goes to onMessage
+  private handleTransferReply(raw: string): boolean {
+    let msg;
     try {
-      const data = JSON.parse(atob(token));
-      if (data.type === 'offer') {
-        await this.handleOffer(data);
-      } else if (data.type === 'answer') {
-        await this.handleAnswer(data);
-      }
+      msg = JSON.parse(raw);
     } catch (e) {
-      throw new Error("Invalid Handshake Token");
+      return false;
+    }
+    if (!msg || typeof msg !== 'object') return false;
+    try {
+      return this.applyTransferReply(msg);
+    } catch (error: any) {
+      // A reply that can't be applied fails its own transfer, not the link
+      console.warn(`Could not handle ${msg.type}:`, error);
+      const transfer = this.activeTransfers.get(msg.id);
+      if (transfer) {
+        this.activeTransfers.delete(msg.id);
+        transfer.reject(new Error(`Invalid ${msg.type} from receiver`));
+      }
+      return true;
+    }
+  }
+
+  private applyTransferReply(msg: any): boolean {
+    const transfer = this.activeTransfers.get(msg.id);
+    const offer = this.pendingOffers.get(msg.id);
+
+    switch (msg.type) {
+      case 'TRANSFER_ACCEPT':
+        if (offer) {
+          this.pendingOffers.delete(msg.id);
+          offer.accept({
+            window: typeof msg.window === 'number' && msg.window > 0 ? msg.window : undefined,
+            encoding: typeof msg.encoding === 'string' ? msg.encoding : undefined
+          });
+        }
+        return true;
+      case 'TRANSFER_CREDIT':
+        if (transfer && typeof msg.limit === 'number' && msg.limit > transfer.creditLimit) {
+          transfer.creditLimit = msg.limit;
+          transfer.wake?.();
+        }
+        return true;
+      case 'RECEIVER_CONTROL':
+        if (transfer || offer || this.activeBundles.has(msg.id)) this.applyReceiverControl(msg.id, msg);
+        return true;
+      case 'TRANSFER_DECLINE':
+        if (offer) {
+          this.pendingOffers.delete(msg.id);
+          offer.reject(new Error('Receiver declined the file.'));
+        }
+        return true;
+      case 'RANGE_REQUEST':
+        if (transfer) this.sendRange(msg.id, msg.offset, msg.length);
+        return true;
+      case 'TRANSFER_VERIFIED':
+        if (transfer) {
+          this.activeTransfers.delete(msg.id);
+          transfer.resolve();
+        }
+        return true;
+      case 'TRANSFER_FAILED':
+        if (transfer) {
+          this.activeTransfers.delete(msg.id);
+          transfer.reject(new Error(msg.reason || 'Receiver rejected the file.'));
+        }
+        return true;
+      default:
+        return false;
+    }
+  }
+
+  sendControl(message: object) {
+    this.send(JSON.stringify(message));
+  }
+
+  private applyReceiverControl(id: string, msg: any) {
+    const control: ReceiverControl = { paused: !!msg.paused, rate: Math.max(0, Number(msg.rate) || 0) };
+    const current = this.receiverControls.get(id);
+    if (current) {
+      current.paused = control.paused;
+      if (current.limiter.rate !== control.rate) current.limiter.setRate(control.rate);
+    } else {
+      this.receiverControls.set(id, { paused: control.paused, limiter: new RateLimiter(control.rate) });
     }
+    this.activeTransfers.forEach((transfer, fileId) => {
+      if (fileId === id || transfer.bundleId === id) transfer.wake?.();
+    });
+    this.onReceiverControlCallback?.(id, control);
   }
 
   setOnMessage(callback: (data: any) => void) {
     this.onMessageCallback = callback;
   }
 
-  setOnStatusChange(callback: (connected: boolean, state?: string) => void) {
+  // state is 'securing', 'open', 'reconnecting' or 'renegotiating' (with the attempt number),
+  // or how the link ended: 'closed', 'failed', 'auth-failed'
+  setOnStatusChange(callback: (connected: boolean, state?: string, attempt?: number) => void) {
     this.onStatusChangeCallback = callback;
   }
 
+  // Fires once per data channel when the handshake completes, with the SAS to compare
+  setOnSecure(callback: (info: SecureLinkInfo) => void) {
+    this.onSecureCallback = callback;
+  }
+
+  setOnDevice(callback: (device: PeerDevice) => void) {
+    this.onDeviceCallback = callback;
+  }
+
+  // The receiver paused, resumed or limited one of our files or bundles
+  setOnReceiverControl(callback: (id: string, control: ReceiverControl) => void) {
+    this.onReceiverControlCallback = callback;
+  }
+
   // New method to pause a file transfer
   pauseTransfer(fileId: string) {
     const transfer = this.activeTransfers.get(fileId);
     if (transfer) {
       transfer.isPaused = true;
-      if (this.dataChannel && this.dataChannel.readyState === 'open') {
-        this.dataChannel.send(JSON.stringify({ type: 'TRANSFER_CONTROL', id: fileId, action: 'PAUSE' }));
-      }
+      this.sendControl({ type: 'TRANSFER_CONTROL', id: fileId, action: 'PAUSE' });
     }
   }
 
@@ -184,80 +802,253 @@ export class WebRTCService {
     const transfer = this.activeTransfers.get(fileId);
     if (transfer && transfer.isPaused) {
       transfer.isPaused = false;
-      if (this.dataChannel && this.dataChannel.readyState === 'open') {
-        this.dataChannel.send(JSON.stringify({ type: 'TRANSFER_CONTROL', id: fileId, action: 'RESUME' }));
-      }
-      this.processChunks(fileId);
+      this.sendControl({ type: 'TRANSFER_CONTROL', id: fileId, action: 'RESUME' });
+      transfer.wake?.();
     }
   }
 
-  private processChunks(fileId: string) {
+  // Reads the rest of the file and stripes it across the data lanes until all of it is sent
+  private async pump(fileId: string) {
     const transfer = this.activeTransfers.get(fileId);
-    if (!transfer || transfer.isPaused || !this.dataChannel || this.dataChannel.readyState !== 'open') return;
-
-    const { file, onProgress } = transfer;
-    const reader = new FileReader();
-
-    const readNext = () => {
-      if (transfer.isPaused) return;
-      
-      const slice = file.slice(transfer.offset, transfer.offset + CHUNK_SIZE);
-      reader.readAsArrayBuffer(slice);
-    };
+    if (!transfer) return;
+    const sizer = this.tuning.adaptiveChunks === false ? null : new AdaptiveChunkSizer(CHUNK_SIZE, this.maxChunkSize);
+    // Still bounded by what the peer accepts in one message; a compressed chunk is never larger than the raw one
+    const minChunk = transfer.encoding ? Math.min(MIN_COMPRESSED_CHUNK, this.maxChunkSize) : CHUNK_SIZE;
+    const chunkSize = () => Math.max(minChunk, sizer?.chunkSize ?? CHUNK_SIZE);
+    const stillActive = () => this.activeTransfers.get(fileId) === transfer;
+    const control = () => this.receiverControls.get(transfer.bundleId ?? fileId);
+    const mustWait = (bytes: number) =>
+      transfer.isPaused || this.linkDown || !!control()?.paused || transfer.offset + bytes > transfer.creditLimit;
 
-    reader.onload = (e) => {
-      const buffer = e.target?.result as ArrayBuffer;
-      if (this.dataChannel && buffer) {
-        if (this.dataChannel.bufferedAmount > 2 * 1024 * 1024) {
-          this.dataChannel.onbufferedamountlow = () => {
-            if (this.dataChannel) {
-              this.dataChannel.onbufferedamountlow = null;
-              this.sendChunk(fileId, buffer, readNext);
-            }
-          };
-        } else {
-          this.sendChunk(fileId, buffer, readNext);
+    try {
+      for await (const chunk of readChunks(transfer.file.slice(transfer.offset), chunkSize)) {
+        while (mustWait(chunk.byteLength) && stillActive()) {
+          await new Promise<void>(resume => { transfer.wake = resume; });
         }
+        const packed = transfer.encoding ? await compressChunk(chunk, transfer.encoding) : undefined;
+        const wireBytes = packed?.byteLength ?? chunk.byteLength;
+        await this.tuning.bandwidth?.take(wireBytes);
+        await control()?.limiter.take(wireBytes);
+        const lane = await this.acquireLane();
+        if (!lane || !stillActive()) return;
+        this.sendChunk(fileId, transfer, lane, chunk, packed);
+        sizer?.record(chunk.byteLength);
       }
-    };
+      // Empty files, or a resume that starts at the end, still need a FINAL frame
+      if (!transfer.isSent) {
+        const lane = await this.acquireLane();
+        if (lane && stillActive()) this.sendChunk(fileId, transfer, lane, new Uint8Array(0));
+      }
+    } catch (error: any) {
+      if (!stillActive()) return;
+      this.activeTransfers.delete(fileId);
+      transfer.reject(new Error(`Could not read the file: ${error?.message || error}`));
+    }
+  }
 
-    readNext();
+  // packed is the compressed form of data, when it is sent that way
+  private sendChunk(fileId: string, transfer: OutgoingTransfer, lane: Lane, data: Uint8Array, packed?: Uint8Array) {
+    const isFinal = transfer.offset + data.byteLength >= transfer.file.size;
+    this.sendOn(lane, encodeFrame({
+      fileId,
+      offset: transfer.offset,
+      flags: (isFinal ? FrameFlag.FINAL : FrameFlag.NONE) | (packed ? ENCODING_FLAGS[transfer.encoding!] : FrameFlag.NONE),
+      data: (packed ?? data).buffer as ArrayBuffer
+    }));
+    transfer.offset += data.byteLength;
+    transfer.onProgress(Math.min(100, (transfer.offset / transfer.file.size) * 100));
+
+    const groups = transfer.hasher.update(data);
+    if (isFinal) groups.push(...transfer.hasher.finish());
+    this.sendDigests(fileId, transfer.hasher, groups);
+
+    if (isFinal) {
+      transfer.isSent = true;
+      this.sendControl({ type: 'FILE_DIGEST', id: fileId, sha256: transfer.hasher.chainDigest });
+    }
   }
 
-  private sendChunk(fileId: string, buffer: ArrayBuffer, next: () => void) {
-    const transfer = this.activeTransfers.get(fileId);
-    if (!transfer || !this.dataChannel) return;
+  private sendDigests(fileId: string, hasher: TransferHasher, groups: GroupDigest[]) {
+    groups.forEach(group => {
+      hasher.commitGroup(group.offset, group.sha256);
+      this.sendControl({ type: 'CHUNK_DIGEST', id: fileId, ...group });
+    });
+  }
 
-    this.dataChannel.send(buffer);
-    transfer.offset += buffer.byteLength;
-    transfer.onProgress(Math.min(100, (transfer.offset / transfer.file.size) * 100));
+  private async waitForControlDrain() {
+    const lane = this.controlLane;
+    while (lane && lane.channel.readyState === 'open' && this.laneBuffered(lane) > HIGH_WATER_MARK) {
+      await new Promise<void>(resolve => this.bufferWaiters.push(resolve));
+    }
+  }
 
-    if (transfer.offset < transfer.file.size) {
-      next();
-    } else {
-      this.activeTransfers.delete(fileId);
+  // Re-sends a byte range the receiver could not verify. Repairs go over the ordered control
+  // channel, since the receiver expects a range's bytes in sequence.
+  private async sendRange(fileId: string, start: number, length: number) {
+    const end = start + length;
+    for (let offset = start; offset < end; offset += CHUNK_SIZE) {
+      const transfer = this.activeTransfers.get(fileId);
+      if (!transfer || !this.dataChannel || this.dataChannel.readyState !== 'open') return;
+
+      const buffer = await transfer.file.slice(offset, Math.min(offset + CHUNK_SIZE, end)).arrayBuffer();
+      await this.waitForControlDrain();
+      this.send(encodeFrame({ fileId, offset, flags: FrameFlag.REPAIR, data: buffer }));
     }
   }
 
-  async sendFile(fileId: string, file: File, onProgress: (progress: number) => void) {
+  // Offers the file and streams it once the receiver accepts. Resolves once the receiver
+  // has verified the whole file against our digests.
+  async sendFile(fileId: string, file: File, onProgress: (progress: number) => void, options: { thumbnail?: string; bundleId?: string; onAccepted?: () => void } = {}): Promise<void> {
     if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
       throw new Error('Connection disconnected.');
     }
 
-    // Initialize metadata
-    this.dataChannel.send(JSON.stringify({
-      type: 'METADATA',
+    const accepted = new Promise<AcceptReply>((accept, reject) => this.pendingOffers.set(fileId, { accept, reject }));
+    // Proposed in the offer; only used if the receiver names it again when accepting
+    const encoding = this.tuning.compression === false ? undefined : await chooseEncoding(file, supportedEncodings());
+    // Cancelled while the file was being sampled: this rejects
+    if (!this.pendingOffers.has(fileId)) await accepted;
+    this.sendControl({
+      type: 'TRANSFER_OFFER',
       id: fileId,
       name: file.name,
       size: file.size,
-      mimeType: file.type
-    }));
+      mimeType: file.type,
+      fingerprint: fileFingerprint(file),
+      thumbnail: options.thumbnail,
+      bundleId: options.bundleId,
+      encoding
+    });
+    const reply = await accepted;
+    options.onAccepted?.();
+
+    return this.streamFile(fileId, file, 0, new TransferHasher(), onProgress, {
+      bundleId: options.bundleId,
+      window: reply.window,
+      encoding: encoding && reply.encoding === encoding ? encoding : undefined
+    });
+  }
+
+  // Offers a folder as one unit, then sends its files one after another. Each file is
+  // offered again tagged with the bundle id, which the receiver accepts without asking.
+  async sendBundle(bundleId: string, name: string, entries: OutgoingBundleEntry[], onProgress: (progress: number) => void, options: { onAccepted?: () => void } = {}): Promise<void> {
+    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+      throw new Error('Connection disconnected.');
+    }
+
+    const accepted = new Promise<AcceptReply>((accept, reject) => this.pendingOffers.set(bundleId, { accept, reject }));
+    this.sendControl({
+      type: 'BUNDLE_OFFER',
+      id: bundleId,
+      name,
+      files: entries.map(entry => ({ id: entry.id, path: entry.path, size: entry.file.size, type: entry.file.type }))
+    });
+    await accepted;
+    options.onAccepted?.();
 
-    this.activeTransfers.set(fileId, { file, offset: 0, onProgress, isPaused: false });
-    this.processChunks(fileId);
+    return this.streamBundle(bundleId, entries, 0, onProgress);
+  }
+
+  // Continues a bundle after a reconnect: finishes the interrupted file, then sends the rest
+  async resumeBundle(bundleId: string, entries: OutgoingBundleEntry[], index: number, request: { offset: number; chain: string; fingerprint: string }, onProgress: (progress: number) => void): Promise<void> {
+    const total = entries.reduce((n, entry) => n + entry.file.size, 0);
+    const before = entries.slice(0, index).reduce((n, entry) => n + entry.file.size, 0);
+    const { id, file } = entries[index];
+    this.activeBundles.set(bundleId, id);
+    try {
+      await this.resumeFile(id, file, request, p => onProgress(total ? ((before + file.size * p / 100) / total) * 100 : 100), bundleId);
+      if (!this.activeBundles.has(bundleId)) throw new TransferCancelledError();
+    } catch (error) {
+      this.activeBundles.delete(bundleId);
+      this.receiverControls.delete(bundleId);
+      throw error;
+    }
+    return this.streamBundle(bundleId, entries, index + 1, onProgress);
+  }
+
+  private async streamBundle(bundleId: string, entries: OutgoingBundleEntry[], start: number, onProgress: (progress: number) => void) {
+    const total = entries.reduce((n, entry) => n + entry.file.size, 0);
+    let before = entries.slice(0, start).reduce((n, entry) => n + entry.file.size, 0);
+    try {
+      for (const { id, file } of entries.slice(start)) {
+        this.activeBundles.set(bundleId, id);
+        await this.sendFile(id, file, p => onProgress(total ? ((before + file.size * p / 100) / total) * 100 : 100), { bundleId });
+        before += file.size;
+        // Cancelled between two files
+        if (!this.activeBundles.has(bundleId)) throw new TransferCancelledError();
+      }
+    } finally {
+      this.activeBundles.delete(bundleId);
+      this.receiverControls.delete(bundleId);
+    }
+    onProgress(100);
+  }
+
+  // Short snippets (links, codes) are delivered inline without an offer
+  sendText(id: string, text: string, fromClipboard = false) {
+    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+      throw new Error('Connection disconnected.');
+    }
+    if (text.length > MAX_TEXT_LENGTH) {
+      throw new Error('Text is too long. Send it as a file instead.');
+    }
+    this.sendControl({ type: 'TEXT', id, text, clipboard: fromClipboard, timestamp: Date.now() });
+  }
+
+  // Takes back an unanswered offer or stops a transfer for good: the send loop stops reading,
+  // sendFile rejects with TransferCancelledError and the receiver drops what it has
+  cancelTransfer(id: string) {
+    const current = this.activeBundles.get(id);
+    this.activeBundles.delete(id);
+    const fileId = current ?? id;
+
+    const offer = this.pendingOffers.get(fileId);
+    const transfer = this.activeTransfers.get(fileId);
+    this.pendingOffers.delete(fileId);
+    this.activeTransfers.delete(fileId);
+    if (!offer && !transfer && current === undefined) return;
+
+    this.sendControl({ type: 'TRANSFER_CANCEL', id });
+    offer?.reject(new TransferCancelledError());
+    transfer?.reject(new TransferCancelledError());
+    transfer?.wake?.();
+  }
+
+  // Answers a receiver's RESUME_REQUEST. The receiver's verified offset and hash chain are
+  // only trusted for the same file; anything else restarts from byte 0.
+  async resumeFile(fileId: string, file: File, request: { offset: number; chain: string; fingerprint: string; window?: number; encodings?: string[] }, onProgress: (progress: number) => void, bundleId?: string): Promise<void> {
+    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+      throw new Error('Connection disconnected.');
+    }
+
+    const canContinue = request.fingerprint === fileFingerprint(file) && request.offset <= file.size;
+    const offset = canContinue ? request.offset : 0;
+    const encoding = this.tuning.compression === false ? undefined : await chooseEncoding(file, request.encodings);
+    this.sendControl({ type: 'RESUME_FROM', id: fileId, offset, encoding });
+
+    const hasher = canContinue ? new TransferHasher(offset, request.chain) : new TransferHasher();
+    const window = typeof request.window === 'number' && request.window > 0 ? request.window : undefined;
+    return this.streamFile(fileId, file, offset, hasher, onProgress, { bundleId, window, encoding });
+  }
+
+  private streamFile(fileId: string, file: File, offset: number, hasher: TransferHasher, onProgress: (progress: number) => void, options: { bundleId?: string; window?: number; encoding?: Encoding } = {}): Promise<void> {
+    const done = new Promise<void>((resolve, reject) => {
+      this.activeTransfers.set(fileId, {
+        file, offset, hasher, onProgress,
+        isPaused: false, isSent: false, resolve, reject,
+        bundleId: options.bundleId,
+        creditLimit: options.window ? offset + options.window : Infinity,
+        encoding: options.encoding
+      });
+      this.pump(fileId);
+    });
+    // Bundle controls outlive each file; streamBundle drops them
+    return options.bundleId ? done : done.finally(() => this.receiverControls.delete(fileId));
   }
 
   destroy() {
+    this.destroyed = true;
+    if (this.reconnectTimer) clearTimeout(this.reconnectTimer);
     this.signalChannel.close();
     this.dataChannel?.close();
     this.peerConnection?.close();
@@ -0,0 +1,90 @@
+// Minimal ZIP writer for received bundles. Entries are stored uncompressed, so the
+// archive is just headers around the already received Blobs and nothing is copied.
+
+const MAX_ZIP_OFFSET = 0xffffffff;
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = async (blob: Blob) => {
+  let crc = 0xffffffff;
+  const reader = blob.stream().getReader();
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    for (let i = 0; i < value.length; i++) crc = CRC_TABLE[(crc ^ value[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const dosDateTime = (date: Date) => ({
+  time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  date: ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+});
+
+export const buildZip = async (entries: { path: string; blob: Blob }[]): Promise<Blob> => {
+  if (entries.length > 0xffff) {
+    throw new Error('Folder has too many files to zip. Accept it into a folder on disk instead.');
+  }
+  const encoder = new TextEncoder();
+  const { time, date } = dosDateTime(new Date());
+  const parts: BlobPart[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    if (offset + entry.blob.size > MAX_ZIP_OFFSET) {
+      throw new Error('Folder is too large to zip. Accept it into a folder on disk instead.');
+    }
+    const name = encoder.encode(entry.path);
+    const crc = await crc32(entry.blob);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034b50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 names
+    local.setUint16(10, time, true);
+    local.setUint16(12, date, true);
+    local.setUint32(14, crc, true);
+    local.setUint32(18, entry.blob.size, true);
+    local.setUint32(22, entry.blob.size, true);
+    local.setUint16(26, name.length, true);
+
+    const header = new DataView(new ArrayBuffer(46));
+    header.setUint32(0, 0x02014b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint16(6, 20, true);
+    header.setUint16(8, 0x0800, true);
+    header.setUint16(12, time, true);
+    header.setUint16(14, date, true);
+    header.setUint32(16, crc, true);
+    header.setUint32(20, entry.blob.size, true);
+    header.setUint32(24, entry.blob.size, true);
+    header.setUint16(28, name.length, true);
+    header.setUint32(42, offset, true);
+
+    parts.push(local.buffer, name, entry.blob);
+    central.push(new Uint8Array(header.buffer), name);
+    offset += 30 + name.length + entry.blob.size;
+  }
+
+  const centralSize = central.reduce((n, part) => n + part.length, 0);
+  if (offset + centralSize > MAX_ZIP_OFFSET) {
+    throw new Error('Folder is too large to zip. Accept it into a folder on disk instead.');
+  }
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054b50, true);
+  end.setUint16(8, entries.length, true);
+  end.setUint16(10, entries.length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, end.buffer], { type: 'application/zip' });
+};
@@ -1,3 +1,6 @@
+import type { SecureLinkInfo } from './services/secureSession';
+import type { ConnectionStats, TransferStats } from './services/transferStats';
+import type { PeerDevice } from './services/deviceIdentity';
 
 export enum TransferStatus {
   UPLOADING = 'UPLOADING',
@@ -5,7 +8,37 @@ export enum TransferStatus {
   FAILED = 'FAILED',
   PENDING = 'PENDING',
   CONNECTING = 'CONNECTING',
-  PAUSED = 'PAUSED'
+  PAUSED = 'PAUSED',
+  INTERRUPTED = 'INTERRUPTED',
+  CANCELLED = 'CANCELLED'
+}
+
+export type Platform = 'macos' | 'windows' | 'linux' | 'chromeos' | 'ios' | 'android' | 'unknown';
+
+export type FormFactor = 'desktop' | 'phone' | 'tablet';
+
+// How a device describes itself in its HELLO; `id` is its identity fingerprint
+export interface DeviceInfo {
+  id: string;
+  name: string;
+  platform: Platform;
+  formFactor: FormFactor;
+  appVersion: string;
+}
+
+export type TransferDirection = 'incoming' | 'outgoing';
+
+export type InsightCategory = 'image' | 'video' | 'audio' | 'document' | 'spreadsheet' | 'presentation' | 'archive' | 'code' | 'data' | 'program' | 'other';
+
+// What an insight provider made of a finished file
+export interface FileInsight {
+  category: InsightCategory;
+  // One sentence
+  summary: string;
+  // Lowercase, for filtering the history
+  tags: string[];
+  // Looks personal or confidential: IDs, finances, health, credentials
+  sensitive: boolean;
 }
 
 export interface SharedFile {
@@ -17,10 +50,51 @@ export interface SharedFile {
   timestamp: number;
   status: TransferStatus;
   progress: number;
-  sender: 'Mac' | 'Android';
-  aiInsight?: string;
+  sender: DeviceInfo;
+  direction: TransferDirection;
+  insight?: FileInsight;
   errorMessage?: string;
   isP2P?: boolean;
+  // Preview shown with an incoming offer
+  thumbnail?: string;
+  // Set for folder bundles: the files it contains, by relative path
+  bundle?: { path: string; size: number }[];
+  // Set for text snippets, which are shown inline instead of as a download
+  text?: string;
+  // Incoming items: the room peer that sent it
+  peerId?: string;
+  // Outgoing items: one entry per receiving peer; status and progress above summarize them
+  recipients?: Recipient[];
+  // Throughput and ETA while bytes are moving
+  stats?: TransferStats;
+  // Incoming items: paused or limited (bytes per second) from this side; the sender enforces it
+  receiverPaused?: boolean;
+  throttle?: number;
+}
+
+export interface Recipient {
+  peerId: string;
+  status: TransferStatus;
+  progress: number;
+  errorMessage?: string;
+  // The recipient paused or limited (bytes per second) its download
+  receiverPaused?: boolean;
+  throttle?: number;
+}
+
+// A remote device in the room, as seen from this one
+export interface Participant {
+  peerId: string;
+  connected: boolean;
+  state: string;
+  // Set once the data channel handshake completes
+  security?: SecureLinkInfo;
+  // Latest getStats() sample while connected
+  link?: ConnectionStats;
+  // Set while the service is trying to bring a dropped link back
+  reconnectAttempt?: number;
+  // The device's persistent identity, once it has introduced itself
+  device?: PeerDevice;
 }
 
 export interface HistoryItem {
@@ -29,8 +103,17 @@ export interface HistoryItem {
   size: number;
   type: string;
   timestamp: number;
-  sender: 'Mac' | 'Android';
-  aiInsight?: string;
+  sender: DeviceInfo;
+  direction: TransferDirection;
+  insight?: FileInsight;
+  text?: string;
+  // Bytes per second over the whole transfer, and the network path it took
+  averageRate?: number;
+  path?: string;
+  // Outgoing items: the devices it was delivered to
+  recipients?: DeviceInfo[];
+  // A copy of the received file is kept and can be downloaded again
+  fileKept?: boolean;
 }
 
 export interface RoomState {
@@ -39,9 +122,10 @@ export interface RoomState {
   files: SharedFile[];
 }
 
+// One binary data channel frame, see services/frameCodec.ts for the wire layout
 export interface FileChunk {
   fileId: string;
-  chunkIndex: number;
-  totalChunks: number;
+  offset: number;
+  flags: number;
   data: ArrayBuffer;
 }
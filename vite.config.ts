@@ -12,7 +12,15 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        'process.env.SIGNALING_URL': JSON.stringify(env.SIGNALING_URL),
+        'process.env.STUN_URLS': JSON.stringify(env.STUN_URLS),
+        'process.env.TURN_URLS': JSON.stringify(env.TURN_URLS),
+        'process.env.TURN_USERNAME': JSON.stringify(env.TURN_USERNAME),
+        'process.env.TURN_CREDENTIAL': JSON.stringify(env.TURN_CREDENTIAL),
+        'process.env.TURN_CREDENTIALS_URL': JSON.stringify(env.TURN_CREDENTIALS_URL),
+        'process.env.ICE_RELAY_ONLY': JSON.stringify(env.ICE_RELAY_ONLY),
+        'process.env.APP_VERSION': JSON.stringify(env.npm_package_version)
       },
       resolve: {
         alias: {